@@ -1,18 +1,23 @@
 import { app, BrowserWindow, powerMonitor } from 'electron'
+import { resumeAlarms, startAlarms, stopAlarms } from './services/alarms'
+import { startAppearanceSchedule } from './services/appearance'
 import { startBluetoothBatteryMonitoring } from './services/bluetooth-battery'
+import { type CliRequest, createCliRequest, runCliCommands, waitForCliStatus } from './services/cli'
 import { setupIpcHandlers } from './services/ipc'
 import { logAppEvent, logError, logWindowEvent } from './services/logger'
+import { unwatchSettings, watchSettings } from './services/settings'
 import { store } from './services/store'
 import { startTemperatureService } from './services/temperature'
+import { stopTimer } from './services/timer'
 import { createTray } from './services/tray'
 import { optimizer, setPackageAppUserModelId } from './services/utils'
 import {
   cancelPendingOverlayRecoveries,
-  createWindow,
   getMainWindow,
   resetWindowPosition,
   scheduleOverlayRecovery,
   setupDisplayEvents,
+  syncOverlayWindows,
 } from './services/window'
 
 logAppEvent('App starting', {
@@ -43,16 +48,25 @@ logAppEvent('App starting', {
 //   }
 // }
 
-const gotTheLock = app.requestSingleInstanceLock()
+// Comandos (`--toggle`, `--timer 25m`, `--status`...) vão para a instância em
+// execução; veja `services/cli.ts`.
+const cliRequest = createCliRequest(process.argv)
+const gotTheLock = app.requestSingleInstanceLock(cliRequest ?? undefined)
 
 if (!gotTheLock) {
   logAppEvent('Another instance is running, quitting')
-  app.quit()
+  if (cliRequest?.wantsStatus) {
+    waitForCliStatus(cliRequest).then((ok) => app.exit(ok ? 0 : 1))
+  } else {
+    app.quit()
+  }
 } else {
   logAppEvent('Got single instance lock')
 
-  app.on('second-instance', (_event, commandLine) => {
+  app.on('second-instance', (_event, commandLine, _workingDirectory, additionalData) => {
     logAppEvent('Second instance attempted', { commandLine })
+    if (runCliCommands(store, commandLine, additionalData as CliRequest | null)) return
+
     const mainWindow = getMainWindow()
     if (mainWindow) {
       if (mainWindow.isMinimized()) mainWindow.restore()
@@ -83,16 +97,29 @@ app.whenReady().then(() => {
 
   setupIpcHandlers()
 
+  watchSettings(store)
+
   createTray(store, () => resetWindowPosition(store))
 
-  createWindow(store)
+  syncOverlayWindows(store)
 
   setupDisplayEvents(store)
 
-  startTemperatureService()
+  startTemperatureService(store)
+
+  startAppearanceSchedule(store)
 
   startBluetoothBatteryMonitoring()
 
+  startAlarms(store)
+
+  runCliCommands(store, process.argv)
+
+  // Alarmes valem em qualquer plataforma; a recuperação do overlay só no Windows.
+  powerMonitor.on('resume', () => {
+    resumeAlarms(store)
+  })
+
   if (process.platform === 'win32') {
     powerMonitor.on('resume', () => {
       logAppEvent('powerMonitor:resume')
@@ -116,7 +143,7 @@ app.whenReady().then(() => {
   app.on('activate', () => {
     logAppEvent('activate')
     if (BrowserWindow.getAllWindows().length === 0) {
-      createWindow(store)
+      syncOverlayWindows(store)
     }
   })
 })
@@ -129,6 +156,9 @@ app.on('window-all-closed', () => {
 app.on('before-quit', () => {
   logAppEvent('before-quit')
   cancelPendingOverlayRecoveries()
+  stopAlarms()
+  stopTimer()
+  unwatchSettings()
 })
 
 app.on('will-quit', () => {
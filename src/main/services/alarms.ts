@@ -0,0 +1,221 @@
+import { Notification } from 'electron'
+import Store from 'electron-store'
+import { IPC } from '~/shared/ipc'
+import type { Alarm, NextAlarm, StoreSchema } from '~/shared/types'
+import { logAppEvent, logError } from './logger'
+import { updateSetting } from './settings'
+import { refreshTrayMenu } from './tray'
+import { broadcastToOverlays } from './window'
+
+/** Reagenda pelo menos a cada minuto, para não depender de um timer longo. */
+const MAX_TIMER_MS = 60_000
+/** Alarme perdido durante a suspensão ainda toca se a máquina voltar a tempo. */
+const MISSED_ALARM_GRACE_MS = 15 * 60_000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+let checkTimeout: NodeJS.Timeout | null = null
+let lastCheckAt = 0
+let nextAlarm: NextAlarm | null = null
+let lastFiredAlarmId: string | null = null
+let unsubscribeStore: (() => void) | null = null
+// Sem uma referência viva a notificação é coletada e os eventos se perdem.
+const activeNotifications = new Set<Notification>()
+
+/**
+ * Próximo toque estritamente depois de `from`: a soneca pendente ou o próximo
+ * dia permitido no horário do alarme, o que vier primeiro.
+ */
+function getNextOccurrence(alarm: Alarm, from: Date): Date | null {
+  if (!alarm.enabled) return null
+
+  const snoozedUntil = alarm.snoozedUntil ? new Date(alarm.snoozedUntil) : null
+  const [hours, minutes] = alarm.time.split(':').map(Number)
+
+  let scheduled: Date | null = null
+  for (let offset = 0; offset <= 7; offset++) {
+    const candidate = new Date(from.getFullYear(), from.getMonth(), from.getDate() + offset)
+    candidate.setHours(hours, minutes, 0, 0)
+    if (candidate <= from) continue
+    if (alarm.weekdays.length === 0 || alarm.weekdays.includes(candidate.getDay())) {
+      scheduled = candidate
+      break
+    }
+  }
+
+  if (snoozedUntil && snoozedUntil > from && (!scheduled || snoozedUntil < scheduled)) {
+    return snoozedUntil
+  }
+  return scheduled
+}
+
+function computeNextAlarm(store: Store<StoreSchema>, now: Date): NextAlarm | null {
+  let next: NextAlarm | null = null
+  for (const alarm of store.get('alarms')) {
+    const at = getNextOccurrence(alarm, now)
+    if (at && (!next || at.getTime() < Date.parse(next.at))) {
+      next = { id: alarm.id, label: alarm.label, at: at.toISOString() }
+    }
+  }
+  return next
+}
+
+function updateAlarm(store: Store<StoreSchema>, id: string, changes: Partial<Alarm>): void {
+  const alarms = store
+    .get('alarms')
+    .map((alarm) => (alarm.id === id ? { ...alarm, ...changes } : alarm))
+  updateSetting(store, 'alarms', alarms)
+}
+
+function showAlarmNotification(store: Store<StoreSchema>, alarm: Alarm): void {
+  if (!Notification.isSupported()) {
+    logError('ALARMS', `Notifications not supported, alarm ${alarm.id} not shown`)
+    return
+  }
+
+  const notification = new Notification({
+    title: alarm.label || 'Alarme',
+    body: alarm.time,
+    silent: !alarm.sound,
+    timeoutType: 'never',
+    actions: [{ type: 'button', text: `Adiar ${alarm.snoozeMinutes} min` }],
+  })
+  activeNotifications.add(notification)
+
+  notification.on('action', () => snoozeAlarm(store, alarm.id))
+  notification.on('close', () => activeNotifications.delete(notification))
+  notification.on('failed', (_event, error) => {
+    logError('ALARMS', `Failed to show alarm ${alarm.id}`, error)
+    activeNotifications.delete(notification)
+  })
+  notification.show()
+}
+
+/**
+ * Último toque do alarme entre `since` (exclusivo) e `now`. Depois de uma
+ * suspensão longa várias ocorrências podem ter passado; só a mais recente
+ * importa, as anteriores são contadas em `skipped`.
+ */
+function getLatestOccurrence(
+  alarm: Alarm,
+  since: Date,
+  now: Date,
+): { at: Date; skipped: number } | null {
+  let at = getNextOccurrence(alarm, since)
+  if (!at || at > now) return null
+
+  let skipped = 0
+  for (let next = getNextOccurrence(alarm, at); next && next <= now; ) {
+    at = next
+    skipped++
+    next = getNextOccurrence(alarm, at)
+  }
+  return { at, skipped }
+}
+
+/**
+ * Toca os alarmes cujo horário caiu entre a última verificação e agora. Depois
+ * do toque a soneca é descartada e o alarme sem repetição se desativa.
+ */
+function checkAlarms(store: Store<StoreSchema>): void {
+  const now = new Date()
+  const since = new Date(lastCheckAt || now.getTime())
+  lastCheckAt = now.getTime()
+
+  for (const alarm of store.get('alarms')) {
+    const occurrence = getLatestOccurrence(alarm, since, now)
+    if (!occurrence) continue
+
+    const { at, skipped } = occurrence
+    if (skipped > 0) logAppEvent('Alarm occurrences skipped', { id: alarm.id, skipped })
+
+    const lateMs = now.getTime() - at.getTime()
+    if (lateMs <= MISSED_ALARM_GRACE_MS) {
+      logAppEvent('Alarm fired', { id: alarm.id, label: alarm.label, lateMs })
+      lastFiredAlarmId = alarm.id
+      showAlarmNotification(store, alarm)
+      // Habilita o "Adiar" da bandeja para o alarme que acabou de tocar.
+      refreshTrayMenu()
+    } else {
+      logAppEvent('Alarm missed', { id: alarm.id, label: alarm.label, at: at.toISOString() })
+    }
+
+    updateAlarm(store, alarm.id, {
+      snoozedUntil: null,
+      enabled: alarm.weekdays.length > 0 && alarm.enabled,
+    })
+  }
+}
+
+/**
+ * Agenda a próxima verificação para o próximo toque (limitado a um minuto) e
+ * avisa o widget quando o próximo alarme muda.
+ */
+function scheduleNextCheck(store: Store<StoreSchema>): void {
+  if (checkTimeout) clearTimeout(checkTimeout)
+
+  const now = new Date()
+  const next = computeNextAlarm(store, now)
+  if (JSON.stringify(next) !== JSON.stringify(nextAlarm)) {
+    nextAlarm = next
+    broadcastToOverlays(IPC.NEXT_ALARM_CHANGE, next)
+  }
+
+  const untilNext = next ? Date.parse(next.at) - now.getTime() : DAY_MS
+  checkTimeout = setTimeout(
+    () => {
+      checkAlarms(store)
+      scheduleNextCheck(store)
+    },
+    Math.max(0, Math.min(untilNext, MAX_TIMER_MS)),
+  )
+}
+
+export function startAlarms(store: Store<StoreSchema>): void {
+  if (checkTimeout) return
+
+  lastCheckAt = Date.now()
+  scheduleNextCheck(store)
+
+  unsubscribeStore = store.onDidChange('alarms', () => scheduleNextCheck(store))
+}
+
+export function stopAlarms(): void {
+  unsubscribeStore?.()
+  unsubscribeStore = null
+  if (checkTimeout) {
+    clearTimeout(checkTimeout)
+    checkTimeout = null
+  }
+}
+
+/**
+ * Chamado no `resume` do `powerMonitor`: os timers ficam parados durante a
+ * suspensão, então verifica na hora o que venceu e reagenda.
+ */
+export function resumeAlarms(store: Store<StoreSchema>): void {
+  if (!checkTimeout) return
+  checkAlarms(store)
+  scheduleNextCheck(store)
+}
+
+/**
+ * Adia o alarme pelos minutos configurados nele. Também reativa um alarme sem
+ * repetição que acabou de tocar.
+ */
+export function snoozeAlarm(store: Store<StoreSchema>, id: string): void {
+  const alarm = store.get('alarms').find((candidate) => candidate.id === id)
+  if (!alarm) return
+
+  const snoozedUntil = new Date(Date.now() + alarm.snoozeMinutes * 60_000).toISOString()
+  logAppEvent('Alarm snoozed', { id, snoozedUntil })
+  updateAlarm(store, id, { enabled: true, snoozedUntil })
+  refreshTrayMenu()
+}
+
+export function getNextAlarm(store: Store<StoreSchema>): NextAlarm | null {
+  return nextAlarm ?? computeNextAlarm(store, new Date())
+}
+
+export function getLastFiredAlarmId(): string | null {
+  return lastFiredAlarmId
+}
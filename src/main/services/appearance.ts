@@ -0,0 +1,122 @@
+import Store from 'electron-store'
+import { IPC } from '~/shared/ipc'
+import { BUILT_IN_THEMES } from '~/shared/themes'
+import type { AppearanceRule, AppearanceTime, StoreSchema, WidgetTheme } from '~/shared/types'
+import { logAppEvent } from './logger'
+import { getSunTimes } from './sun-times'
+import { broadcastToOverlays } from './window'
+
+const MINUTES_PER_DAY = 24 * 60
+
+let effectiveTheme: WidgetTheme | null = null
+let activeRuleName: string | null = null
+let evaluationTimeout: NodeJS.Timeout | null = null
+let unsubscribeStore: (() => void)[] = []
+
+function minutesOfDay(date: Date): number {
+  return date.getHours() * 60 + date.getMinutes()
+}
+
+/**
+ * Converte o momento da regra em minutos do dia local. Sem nascer/pôr do sol
+ * (regiões polares) retorna `null` e a regra fica inativa.
+ */
+function resolveTime(time: AppearanceTime, now: Date, store: Store<StoreSchema>): number | null {
+  if (time.kind === 'clock') {
+    const [hours, minutes] = time.time.split(':').map(Number)
+    return hours * 60 + minutes
+  }
+
+  const { latitude, longitude } = store.get('appearanceSchedule')
+  const sun = getSunTimes(now, latitude, longitude)[time.kind]
+  if (!sun) return null
+  const minutes = minutesOfDay(sun) + time.offsetMinutes
+  return ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY
+}
+
+/**
+ * Intervalo [from, to) no dia; quando `from` é maior que `to` (ex.: 22:00 às
+ * 06:00) o intervalo atravessa a meia-noite.
+ */
+function isRuleActive(rule: AppearanceRule, now: Date, store: Store<StoreSchema>): boolean {
+  const from = resolveTime(rule.from, now, store)
+  const to = resolveTime(rule.to, now, store)
+  if (from === null || to === null || from === to) return false
+
+  const current = minutesOfDay(now)
+  return from < to ? current >= from && current < to : current >= from || current < to
+}
+
+function findTheme(store: Store<StoreSchema>, name: string): WidgetTheme | undefined {
+  return [...store.get('customThemes'), ...BUILT_IN_THEMES].find((theme) => theme.name === name)
+}
+
+function computeEffectiveTheme(store: Store<StoreSchema>, now: Date): WidgetTheme {
+  const baseTheme = store.get('theme')
+  const schedule = store.get('appearanceSchedule')
+  const rule = schedule.enabled
+    ? schedule.rules.find((candidate) => isRuleActive(candidate, now, store))
+    : undefined
+
+  if (rule?.name !== activeRuleName) {
+    logAppEvent('Appearance rule changed', { from: activeRuleName, to: rule?.name ?? null })
+    activeRuleName = rule?.name ?? null
+  }
+
+  if (!rule) return baseTheme
+  const theme = (rule.theme && findTheme(store, rule.theme)) || baseTheme
+  return rule.opacity === null ? theme : { ...theme, opacity: rule.opacity }
+}
+
+/**
+ * Reavalia as regras e envia o tema resultante às janelas só quando ele muda.
+ */
+function evaluate(store: Store<StoreSchema>): void {
+  const next = computeEffectiveTheme(store, new Date())
+  if (JSON.stringify(next) === JSON.stringify(effectiveTheme)) return
+
+  effectiveTheme = next
+  broadcastToOverlays(IPC.THEME_CHANGE, next)
+}
+
+/**
+ * Agenda a próxima avaliação para o início do minuto seguinte, já que as
+ * regras têm resolução de minutos.
+ */
+function scheduleNextEvaluation(store: Store<StoreSchema>): void {
+  const delay = 60_000 - (Date.now() % 60_000) + 50
+  evaluationTimeout = setTimeout(() => {
+    evaluate(store)
+    scheduleNextEvaluation(store)
+  }, delay)
+}
+
+export function startAppearanceSchedule(store: Store<StoreSchema>): void {
+  if (evaluationTimeout) return
+
+  evaluate(store)
+  scheduleNextEvaluation(store)
+
+  // O tema escolhido e as regras valem na hora, sem esperar o próximo minuto.
+  unsubscribeStore = [
+    store.onDidChange('theme', () => evaluate(store)),
+    store.onDidChange('customThemes', () => evaluate(store)),
+    store.onDidChange('appearanceSchedule', () => evaluate(store)),
+  ]
+}
+
+export function stopAppearanceSchedule(): void {
+  for (const unsubscribe of unsubscribeStore) unsubscribe()
+  unsubscribeStore = []
+  if (evaluationTimeout) {
+    clearTimeout(evaluationTimeout)
+    evaluationTimeout = null
+  }
+}
+
+/**
+ * Tema a aplicar agora: o ativo, ajustado pela regra de horário em vigor.
+ */
+export function getEffectiveTheme(store: Store<StoreSchema>): WidgetTheme {
+  return effectiveTheme ?? computeEffectiveTheme(store, new Date())
+}
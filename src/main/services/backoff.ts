@@ -0,0 +1,14 @@
+export type BackoffOptions = {
+  baseMs: number
+  maxMs: number
+}
+
+/**
+ * Atraso exponencial com jitter: um valor aleatório entre `baseMs` e
+ * `min(maxMs, baseMs * 2^attempt)`. Espalha as reconexões para que várias
+ * instâncias não batam no servidor ao mesmo tempo após uma queda.
+ */
+export function getBackoffDelay(attempt: number, { baseMs, maxMs }: BackoffOptions): number {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt))
+  return Math.max(baseMs, Math.round(Math.random() * ceiling))
+}
@@ -0,0 +1,11 @@
+import type { BluetoothDevice } from '~/shared/types'
+
+/**
+ * Implementação por plataforma da leitura de bateria dos fones Bluetooth.
+ * Retorna `null` quando a leitura falhou (o último valor conhecido é mantido) e
+ * lista vazia quando não há dispositivos conectados.
+ */
+export type BluetoothBatteryBackend = {
+  name: string
+  fetchDevices: () => Promise<BluetoothDevice[] | null>
+}
@@ -0,0 +1,151 @@
+import { execFile } from 'node:child_process'
+import { promisify } from 'node:util'
+import type { BluetoothDevice } from '~/shared/types'
+import type { BluetoothBatteryBackend } from './bluetooth-battery-backend'
+import { logError } from './logger'
+
+const execFileAsync = promisify(execFile)
+
+const EXEC_TIMEOUT = 10_000
+
+type BusctlVariant = { type: string; data: unknown }
+
+type ManagedObjects = Record<string, Record<string, Record<string, BusctlVariant>>>
+
+type BluezDevice = {
+  name: string
+  address: string
+  batteryLevel: number | null
+}
+
+async function run(command: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync(command, args, {
+    encoding: 'utf8',
+    timeout: EXEC_TIMEOUT,
+  })
+  return stdout
+}
+
+function normalizeAddress(address: string): string {
+  return address.replace(/[_-]/g, ':').toUpperCase()
+}
+
+function toBatteryLevel(value: unknown): number | null {
+  const level = typeof value === 'number' ? value : Number.parseFloat(String(value))
+  return Number.isFinite(level) && level >= 0 && level <= 100 ? Math.round(level) : null
+}
+
+/**
+ * Lista os fones conectados a partir do `GetManagedObjects` do BlueZ, lendo a
+ * bateria de `org.bluez.Battery1` quando o bluetoothd a expõe.
+ */
+async function getBluezDevices(): Promise<BluezDevice[]> {
+  const stdout = await run('busctl', [
+    '--system',
+    '--json=short',
+    'call',
+    'org.bluez',
+    '/',
+    'org.freedesktop.DBus.ObjectManager',
+    'GetManagedObjects',
+  ])
+
+  const parsed = JSON.parse(stdout) as { data?: [ManagedObjects] }
+  const objects = parsed.data?.[0] ?? {}
+  const devices: BluezDevice[] = []
+
+  for (const interfaces of Object.values(objects)) {
+    const device = interfaces['org.bluez.Device1']
+    if (!device || device.Connected?.data !== true) continue
+
+    const icon = device.Icon?.data
+    if (typeof icon === 'string' && !icon.startsWith('audio-')) continue
+
+    const address = device.Address?.data
+    if (typeof address !== 'string') continue
+
+    const name = device.Alias?.data ?? device.Name?.data ?? address
+    devices.push({
+      name: String(name),
+      address: normalizeAddress(address),
+      batteryLevel: toBatteryLevel(interfaces['org.bluez.Battery1']?.Percentage?.data),
+    })
+  }
+
+  return devices
+}
+
+/**
+ * Níveis de bateria reportados pelo UPower, indexados pelo endereço do
+ * dispositivo. Fallback para quando o BlueZ não expõe `Battery1`.
+ */
+async function getUpowerBatteryLevels(): Promise<Map<string, number>> {
+  const levels = new Map<string, number>()
+
+  let stdout: string
+  try {
+    stdout = await run('upower', ['--dump'])
+  } catch {
+    return levels
+  }
+
+  for (const block of stdout.split(/\n\s*\n/)) {
+    const nativePath = block.match(/native-path:\s*(\S+)/)?.[1] ?? ''
+    const serial = block.match(/serial:\s*(\S+)/)?.[1] ?? ''
+    const percentage = toBatteryLevel(
+      block.match(/percentage:\s*([\d.,]+)%/)?.[1]?.replace(',', '.'),
+    )
+    if (percentage === null) continue
+
+    const address = nativePath.match(/dev_([0-9A-Fa-f_]{17})/)?.[1] ?? serial
+    if (/^([0-9A-Fa-f]{2}[:_-]){5}[0-9A-Fa-f]{2}$/.test(address)) {
+      levels.set(normalizeAddress(address), percentage)
+    }
+  }
+
+  return levels
+}
+
+/**
+ * Endereço do fone que é a saída de áudio padrão. Os sinks do BlueZ no
+ * PulseAudio/PipeWire carregam o endereço no nome, ex.:
+ * `bluez_output.00_11_22_33_44_55.1` ou `bluez_sink.00_11_22_33_44_55.a2dp_sink`.
+ */
+async function getActiveSinkAddress(): Promise<string | null> {
+  try {
+    const sink = (await run('pactl', ['get-default-sink'])).trim()
+    const address = sink.match(/^bluez_(?:output|sink)\.([0-9A-Fa-f_]{17})/)?.[1]
+    return address ? normalizeAddress(address) : null
+  } catch {
+    return null
+  }
+}
+
+async function fetchDevices(): Promise<BluetoothDevice[] | null> {
+  let bluezDevices: BluezDevice[]
+  try {
+    bluezDevices = await getBluezDevices()
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error)
+    logError('Bluetooth', 'Failed to query BlueZ over D-Bus', errMsg.substring(0, 500))
+    return null
+  }
+
+  if (bluezDevices.length === 0) return []
+
+  const upowerLevels = bluezDevices.some((d) => d.batteryLevel === null)
+    ? await getUpowerBatteryLevels()
+    : new Map<string, number>()
+  const activeAddress = await getActiveSinkAddress()
+
+  return bluezDevices.map((d) => ({
+    name: d.name,
+    batteryLevel: d.batteryLevel ?? upowerLevels.get(d.address) ?? null,
+    isActive: d.address === activeAddress,
+  }))
+}
+
+export const linuxBluetoothBatteryBackend: BluetoothBatteryBackend = {
+  name: 'linux-bluez',
+  fetchDevices,
+}
@@ -0,0 +1,84 @@
+import { exec } from 'node:child_process'
+import { promisify } from 'node:util'
+import type { BluetoothDevice } from '~/shared/types'
+import type { BluetoothBatteryBackend } from './bluetooth-battery-backend'
+import { logError } from './logger'
+
+const execAsync = promisify(exec)
+
+/**
+ * Encodes a PowerShell script to Base64 for safe execution
+ */
+function encodePS(script: string): string {
+  return Buffer.from(script, 'utf16le').toString('base64')
+}
+
+/**
+ * OPTIMIZED VERSION - Fetch Bluetooth battery data using PowerShell
+ * Key optimizations:
+ * 1. Uses `-Class System` to drastically reduce initial device list
+ * 2. Filters by `BTHENUM*` in InstanceId (real Bluetooth devices only)
+ * 3. Filters by `Hands-Free` in name (only devices that report battery)
+ */
+async function fetchDevices(): Promise<BluetoothDevice[] | null> {
+  try {
+    const psScript = `$ErrorActionPreference='SilentlyContinue';$ProgressPreference='SilentlyContinue'
+$bk='{104EA319-6EE2-4701-BD47-8DDBF425BBE5} 2';$ck='DEVPKEY_Device_ContainerId'
+$ae=Get-PnpDevice -Class AudioEndpoint -Status OK|?{$_.FriendlyName-match'Fones de ouvido|Headphones|Headset|TMoweS'}
+$ac=@{};foreach($ep in $ae){$c=(Get-PnpDeviceProperty -InstanceId $ep.InstanceId -KeyName $ck -EA 0).Data;if($c){$ac[$c.ToString()]=$true}}
+$d=Get-PnpDevice -Class System -Status OK|?{$_.InstanceId-like'BTHENUM*'-and$_.FriendlyName-match'Hands-Free'}
+$db=@{};foreach($dev in $d){$bp=Get-PnpDeviceProperty -InstanceId $dev.InstanceId -KeyName $bk -EA 0;if($bp-and$null-ne$bp.Data){$bl=[int]$bp.Data;if($bl-ge0-and$bl-le100){$n=$dev.FriendlyName-replace' Hands-Free.*$','';$cp=Get-PnpDeviceProperty -InstanceId $dev.InstanceId -KeyName $ck -EA 0;$ci=if($cp-and$cp.Data){$cp.Data.ToString()}else{''};$ia=$ci-and$ac.ContainsKey($ci);$db[$dev.InstanceId]=[PSCustomObject]@{Name=$n;BatteryLevel=$bl;IsActive=$ia}}}}
+$g=@{};foreach($i in $db.Values){if($i.IsActive-or(-not$g[$i.Name])){$g[$i.Name]=$i}};@($g.Values)|ConvertTo-Json -Compress`
+
+    const encoded = encodePS(psScript)
+
+    const { stdout, stderr } = await execAsync(
+      `powershell -NoProfile -NonInteractive -ExecutionPolicy Bypass -EncodedCommand ${encoded}`,
+      {
+        encoding: 'utf8',
+        timeout: 20000,
+        windowsHide: true,
+      },
+    )
+
+    if (stderr && !stderr.includes('CLIXML') && !stderr.includes('progress')) {
+      logError('Bluetooth', 'PowerShell stderr', stderr.substring(0, 500))
+    }
+
+    const trimmed = stdout.trim()
+
+    if (!trimmed || trimmed === 'null' || trimmed === '' || trimmed === '[]') {
+      return []
+    }
+
+    type PsDevice = { Name?: unknown; BatteryLevel?: unknown; IsActive?: unknown }
+    let parsedDevices: PsDevice[] = []
+    try {
+      const parsed: unknown = JSON.parse(trimmed)
+      parsedDevices = Array.isArray(parsed) ? (parsed as PsDevice[]) : [parsed as PsDevice]
+    } catch {
+      logError('Bluetooth', 'Failed to parse JSON', { output: trimmed.substring(0, 300) })
+      return null
+    }
+
+    return parsedDevices
+      .filter(
+        (d): d is { Name: string; BatteryLevel: number; IsActive?: unknown } =>
+          typeof d?.Name === 'string' && typeof d.BatteryLevel === 'number',
+      )
+      .map((d) => ({
+        name: d.Name,
+        batteryLevel: d.BatteryLevel,
+        isActive: Boolean(d.IsActive),
+      }))
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error)
+    logError('Bluetooth', 'Failed to fetch battery data', errMsg.substring(0, 500))
+    return null
+  }
+}
+
+export const windowsBluetoothBatteryBackend: BluetoothBatteryBackend = {
+  name: 'windows-powershell',
+  fetchDevices,
+}
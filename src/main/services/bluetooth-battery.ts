@@ -1,129 +1,78 @@
-import { exec } from 'node:child_process'
-import { promisify } from 'node:util'
-import type { BluetoothBatteryData, BluetoothDevice } from '~/shared/types'
-import { logAppEvent, logError } from './logger'
-import { getMainWindow } from './window'
-
-const execAsync = promisify(exec)
+import { IPC } from '~/shared/ipc'
+import type { BluetoothBatteryData } from '~/shared/types'
+import type { BluetoothBatteryBackend } from './bluetooth-battery-backend'
+import { linuxBluetoothBatteryBackend } from './bluetooth-battery-linux'
+import { windowsBluetoothBatteryBackend } from './bluetooth-battery-windows'
+import { logAppEvent } from './logger'
+import { broadcastToOverlays } from './window'
 
 const FETCH_INTERVAL = 30_000 // 30 seconds
 
+const BACKENDS: Partial<Record<NodeJS.Platform, BluetoothBatteryBackend>> = {
+  win32: windowsBluetoothBatteryBackend,
+  linux: linuxBluetoothBatteryBackend,
+}
+
 let intervalId: ReturnType<typeof setInterval> | null = null
 let lastBluetoothData: BluetoothBatteryData | null = null
 
-/**
- * Encodes a PowerShell script to Base64 for safe execution
- */
-function encodePS(script: string): string {
-  return Buffer.from(script, 'utf16le').toString('base64')
-}
+async function fetchBluetoothBatteryData(
+  backend: BluetoothBatteryBackend,
+): Promise<BluetoothBatteryData | null> {
+  logAppEvent('Bluetooth: Fetching battery data...', { backend: backend.name })
+  const startTime = performance.now()
 
-/**
- * OPTIMIZED VERSION - Fetch Bluetooth battery data using PowerShell
- * Key optimizations:
- * 1. Uses `-Class System` to drastically reduce initial device list
- * 2. Filters by `BTHENUM*` in InstanceId (real Bluetooth devices only)
- * 3. Filters by `Hands-Free` in name (only devices that report battery)
- */
-async function fetchBluetoothBatteryData(): Promise<BluetoothBatteryData | null> {
-  try {
-    const psScript = `$ErrorActionPreference='SilentlyContinue';$ProgressPreference='SilentlyContinue'
-$bk='{104EA319-6EE2-4701-BD47-8DDBF425BBE5} 2';$ck='DEVPKEY_Device_ContainerId'
-$ae=Get-PnpDevice -Class AudioEndpoint -Status OK|?{$_.FriendlyName-match'Fones de ouvido|Headphones|Headset|TMoweS'}
-$ac=@{};foreach($ep in $ae){$c=(Get-PnpDeviceProperty -InstanceId $ep.InstanceId -KeyName $ck -EA 0).Data;if($c){$ac[$c.ToString()]=$true}}
-$d=Get-PnpDevice -Class System -Status OK|?{$_.InstanceId-like'BTHENUM*'-and$_.FriendlyName-match'Hands-Free'}
-$db=@{};foreach($dev in $d){$bp=Get-PnpDeviceProperty -InstanceId $dev.InstanceId -KeyName $bk -EA 0;if($bp-and$null-ne$bp.Data){$bl=[int]$bp.Data;if($bl-ge0-and$bl-le100){$n=$dev.FriendlyName-replace' Hands-Free.*$','';$cp=Get-PnpDeviceProperty -InstanceId $dev.InstanceId -KeyName $ck -EA 0;$ci=if($cp-and$cp.Data){$cp.Data.ToString()}else{''};$ia=$ci-and$ac.ContainsKey($ci);$db[$dev.InstanceId]=[PSCustomObject]@{Name=$n;BatteryLevel=$bl;IsActive=$ia}}}}
-$g=@{};foreach($i in $db.Values){if($i.IsActive-or(-not$g[$i.Name])){$g[$i.Name]=$i}};@($g.Values)|ConvertTo-Json -Compress`
-
-    logAppEvent('Bluetooth: Fetching battery data...')
-    const startTime = performance.now()
-    const encoded = encodePS(psScript)
-
-    const { stdout, stderr } = await execAsync(
-      `powershell -NoProfile -NonInteractive -ExecutionPolicy Bypass -EncodedCommand ${encoded}`,
-      {
-        encoding: 'utf8',
-        timeout: 20000,
-        windowsHide: true,
-      },
-    )
+  const devices = await backend.fetchDevices()
+  if (!devices) return null
 
-    const execTime = performance.now() - startTime
-
-    if (stderr && !stderr.includes('CLIXML') && !stderr.includes('progress')) {
-      logError('Bluetooth', 'PowerShell stderr', stderr.substring(0, 500))
-    }
-
-    const trimmed = stdout.trim()
-
-    if (!trimmed || trimmed === 'null' || trimmed === '' || trimmed === '[]') {
-      logAppEvent(`Bluetooth: No devices found (${execTime.toFixed(0)}ms)`)
-      return { devices: [], activeDevice: null, timestamp: new Date().toISOString() }
-    }
-
-    type PsDevice = { Name?: unknown; BatteryLevel?: unknown; IsActive?: unknown }
-    let parsedDevices: PsDevice[] = []
-    try {
-      const parsed: unknown = JSON.parse(trimmed)
-      parsedDevices = Array.isArray(parsed) ? (parsed as PsDevice[]) : [parsed as PsDevice]
-    } catch {
-      logError('Bluetooth', 'Failed to parse JSON', { output: trimmed.substring(0, 300) })
-      return null
-    }
-
-    const devices: BluetoothDevice[] = parsedDevices
-      .filter(
-        (d): d is { Name: string; BatteryLevel: number; IsActive?: unknown } =>
-          typeof d?.Name === 'string' && typeof d.BatteryLevel === 'number',
-      )
-      .map((d) => ({
-        name: d.Name,
-        batteryLevel: d.BatteryLevel,
-        isActive: Boolean(d.IsActive),
-      }))
+  const execTime = performance.now() - startTime
 
+  if (devices.length === 0) {
+    logAppEvent(`Bluetooth: No devices found (${execTime.toFixed(0)}ms)`)
+  } else {
     logAppEvent(`Bluetooth: Found ${devices.length} device(s) in ${execTime.toFixed(0)}ms`)
     devices.forEach((d) =>
-      logAppEvent(`  - ${d.name}: ${d.batteryLevel}%${d.isActive ? ' [ACTIVE]' : ''}`),
+      logAppEvent(`  - ${d.name}: ${d.batteryLevel ?? '?'}%${d.isActive ? ' [ACTIVE]' : ''}`),
     )
+  }
+
+  const activeDevice = devices.find((d) => d.isActive && d.batteryLevel !== null) || null
 
-    const activeDevice = devices.find((d) => d.isActive && d.batteryLevel !== null) || null
-
-    return {
-      devices,
-      activeDevice,
-      timestamp: new Date().toISOString(),
-    }
-  } catch (error) {
-    const errMsg = error instanceof Error ? error.message : String(error)
-    logError('Bluetooth', 'Failed to fetch battery data', errMsg.substring(0, 500))
-    return null
+  return {
+    devices,
+    activeDevice,
+    timestamp: new Date().toISOString(),
   }
 }
 
-async function fetchAndUpdateBluetoothBattery(): Promise<void> {
-  const data = await fetchBluetoothBatteryData()
+async function fetchAndUpdateBluetoothBattery(backend: BluetoothBatteryBackend): Promise<void> {
+  const data = await fetchBluetoothBatteryData(backend)
 
   if (data) {
     lastBluetoothData = data
 
-    const mainWindow = getMainWindow()
-    if (mainWindow && !mainWindow.isDestroyed()) {
-      mainWindow.webContents.send('bluetooth-battery-update', data)
-    }
+    broadcastToOverlays(IPC.BLUETOOTH_BATTERY_UPDATE, data)
   }
 }
 
 export function startBluetoothBatteryMonitoring(): void {
-  logAppEvent('Starting Bluetooth battery monitoring...')
+  const backend = BACKENDS[process.platform]
+  if (!backend) {
+    logAppEvent('Bluetooth battery monitoring not supported on this platform', {
+      platform: process.platform,
+    })
+    return
+  }
+
+  logAppEvent('Starting Bluetooth battery monitoring...', { backend: backend.name })
 
-  fetchAndUpdateBluetoothBattery()
+  fetchAndUpdateBluetoothBattery(backend)
 
   if (intervalId) {
     clearInterval(intervalId)
   }
 
-  intervalId = setInterval(fetchAndUpdateBluetoothBattery, FETCH_INTERVAL)
+  intervalId = setInterval(() => fetchAndUpdateBluetoothBattery(backend), FETCH_INTERVAL)
   logAppEvent('Bluetooth battery monitoring started')
 }
 
@@ -0,0 +1,316 @@
+import { randomUUID } from 'node:crypto'
+import { existsSync, readFileSync, renameSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import Store from 'electron-store'
+import { formatClock } from '~/shared/clock-format'
+import { isSettingKey } from '~/shared/settings-validation'
+import { formatTemperature } from '~/shared/temperature-format'
+import type { StoreSchema, TemperatureConnectionState } from '~/shared/types'
+import { getLastBluetoothBatteryData } from './bluetooth-battery'
+import { logAppEvent, logError } from './logger'
+import { updateSetting } from './settings'
+import { getLastTemperatureData, getTemperatureConnectionState } from './temperature'
+import {
+  describeTimer,
+  pauseTimer,
+  resetTimer,
+  resumeTimer,
+  startCountdown,
+  startPomodoro,
+  startStopwatch,
+} from './timer'
+import { refreshTrayMenu } from './tray'
+import { areOverlaysVisible, resetWindowPosition, setOverlaysVisible } from './window'
+
+/** Quanto a segunda instância espera a resposta do `--status`. */
+const STATUS_TIMEOUT_MS = 5000
+const STATUS_POLL_MS = 50
+
+const DURATION_UNITS_MS: Record<string, number> = { h: 3_600_000, m: 60_000, s: 1000 }
+/** Mesma faixa aceita em `timers.countdownPresets`; acima disso o `setTimeout` estoura. */
+const MIN_COUNTDOWN_MINUTES = 1
+const MAX_COUNTDOWN_MINUTES = 1440
+
+type CliCommand =
+  | { type: 'reset-position' }
+  | { type: 'visibility'; action: 'show' | 'hide' | 'toggle' }
+  | { type: 'set'; assignment: string }
+  | { type: 'timer'; value: string }
+  | { type: 'status' }
+
+/** Enviado pela segunda instância em `requestSingleInstanceLock`. */
+export type CliRequest = {
+  id: string
+  wantsStatus: boolean
+}
+
+export type CliStatus = {
+  time: string
+  clock: string
+  temperature: {
+    display: StoreSchema['temperatureDisplay']
+    value: string | null
+    unit: string | null
+    text: string | null
+    connection: TemperatureConnectionState
+    timestamp: string
+  } | null
+  battery: { device: string; level: number | null } | null
+  timer: string
+}
+
+/**
+ * Lê os comandos da linha de comando. O Chromium pode reordenar ou acrescentar
+ * switches ao `commandLine` da segunda instância, então flags desconhecidas
+ * são ignoradas e os valores aceitam tanto `--set k=v` quanto `--set=k=v`.
+ */
+function parseCliCommands(argv: string[]): CliCommand[] {
+  const commands: CliCommand[] = []
+
+  for (let index = 0; index < argv.length; index++) {
+    const [flag, inlineValue] = splitFlag(argv[index])
+    const takeValue = () => inlineValue ?? argv[++index]
+
+    switch (flag) {
+      case '--reset-position':
+        commands.push({ type: 'reset-position' })
+        break
+      case '--show':
+      case '--hide':
+      case '--toggle':
+        commands.push({ type: 'visibility', action: flag.slice(2) as 'show' | 'hide' | 'toggle' })
+        break
+      case '--set':
+      case '--timer': {
+        const value = takeValue()
+        if (value === undefined) {
+          logError('CLI', `Missing value for ${flag}`)
+        } else if (flag === '--set') {
+          commands.push({ type: 'set', assignment: value })
+        } else {
+          commands.push({ type: 'timer', value })
+        }
+        break
+      }
+      case '--status':
+        commands.push({ type: 'status' })
+        break
+    }
+  }
+
+  return commands
+}
+
+function splitFlag(arg: string): [string, string | undefined] {
+  const separator = arg.indexOf('=')
+  if (!arg.startsWith('--') || separator === -1) return [arg, undefined]
+  return [arg.slice(0, separator), arg.slice(separator + 1)]
+}
+
+/**
+ * "25m", "90s", "1h30m" ou só "25" (minutos) → milissegundos.
+ */
+function parseDuration(value: string): number | null {
+  if (/^\d+(\.\d+)?$/.test(value)) return Number(value) * DURATION_UNITS_MS.m
+
+  const parts = [...value.toLowerCase().matchAll(/(\d+(?:\.\d+)?)([hms])/g)]
+  if (parts.length === 0 || parts.map(([part]) => part).join('') !== value.toLowerCase()) {
+    return null
+  }
+  return parts.reduce(
+    (total, [, amount, unit]) => total + Number(amount) * DURATION_UNITS_MS[unit],
+    0,
+  )
+}
+
+/**
+ * O valor é lido como JSON quando possível (`true`, `12`, `{"a":1}`) e como
+ * texto caso contrário. `chave.campo=valor` altera só um campo de um objeto.
+ */
+function setFromCli(store: Store<StoreSchema>, assignment: string): void {
+  const separator = assignment.indexOf('=')
+  if (separator === -1) {
+    logError('CLI', `Invalid --set, expected key=value: ${assignment}`)
+    return
+  }
+
+  const [key, ...path] = assignment.slice(0, separator).split('.')
+  const rawValue = assignment.slice(separator + 1)
+  if (!isSettingKey(key)) {
+    logError('CLI', `Unknown setting: ${key}`)
+    return
+  }
+
+  let value: unknown
+  try {
+    value = JSON.parse(rawValue)
+  } catch {
+    value = rawValue
+  }
+
+  const result = updateSetting(store, key, setAtPath(store.get(key), path, value) as never)
+  if (result.ok) refreshTrayMenu()
+  else logError('CLI', `Rejected --set ${assignment}`, result.error)
+}
+
+function setAtPath(target: unknown, path: string[], value: unknown): unknown {
+  if (path.length === 0) return value
+  const [head, ...rest] = path
+  const object = typeof target === 'object' && target !== null ? target : {}
+  return { ...object, [head]: setAtPath((object as Record<string, unknown>)[head], rest, value) }
+}
+
+function runTimerCommand(store: Store<StoreSchema>, value: string): void {
+  switch (value) {
+    case 'pomodoro':
+      return startPomodoro(store)
+    case 'stopwatch':
+      return startStopwatch(store)
+    case 'pause':
+      return pauseTimer(store)
+    case 'resume':
+      return resumeTimer(store)
+    case 'reset':
+      return resetTimer(store)
+  }
+
+  const durationMs = parseDuration(value)
+  const minutes = durationMs === null ? null : durationMs / DURATION_UNITS_MS.m
+  if (minutes === null || minutes < MIN_COUNTDOWN_MINUTES || minutes > MAX_COUNTDOWN_MINUTES) {
+    logError(
+      'CLI',
+      `Invalid --timer value: ${value} (${MIN_COUNTDOWN_MINUTES}-${MAX_COUNTDOWN_MINUTES} minutes)`,
+    )
+    return
+  }
+  startCountdown(store, minutes)
+}
+
+function setOverlaysVisibility(action: 'show' | 'hide' | 'toggle'): void {
+  setOverlaysVisible(action === 'toggle' ? !areOverlaysVisible() : action === 'show')
+}
+
+export function getCliStatus(store: Store<StoreSchema>): CliStatus {
+  const now = new Date()
+  const temperature = getLastTemperatureData()
+  const display = store.get('temperatureDisplay')
+  const reading = temperature?.[display]
+  const battery = getLastBluetoothBatteryData()?.activeDevice
+
+  return {
+    time: now.toISOString(),
+    clock: formatClock(now, store.get('clockFormat'))
+      .map((segment) => segment.text)
+      .join(''),
+    temperature:
+      temperature && reading
+        ? {
+            display,
+            value: reading.value,
+            unit: reading.unit,
+            text:
+              reading.value === null
+                ? null
+                : formatTemperature(reading.value, reading.unit, store.get('temperatureFormat')),
+            connection: getTemperatureConnectionState(),
+            timestamp: temperature.timestamp,
+          }
+        : null,
+    battery: battery ? { device: battery.name, level: battery.batteryLevel } : null,
+    timer: describeTimer(),
+  }
+}
+
+function getStatusFile(id: string): string {
+  return join(tmpdir(), `desktop-widget-clock-status-${id}.json`)
+}
+
+/**
+ * Monta o pedido da segunda instância, ou `null` quando não há comandos e ela
+ * só deve trazer o widget para frente como antes.
+ */
+export function createCliRequest(argv: string[]): CliRequest | null {
+  const commands = parseCliCommands(argv)
+  if (commands.length === 0) return null
+  return { id: randomUUID(), wantsStatus: commands.some((command) => command.type === 'status') }
+}
+
+/**
+ * Executa os comandos na instância em execução. Sem `request` (primeira
+ * instância) o `--status` sai no próprio stdout; com ele, vai para o arquivo
+ * que a segunda instância está esperando.
+ */
+export function runCliCommands(
+  store: Store<StoreSchema>,
+  argv: string[],
+  request: CliRequest | null = null,
+): boolean {
+  const commands = parseCliCommands(argv)
+  if (commands.length === 0) return false
+
+  logAppEvent('CLI commands', { commands, requestId: request?.id })
+
+  for (const command of commands) {
+    switch (command.type) {
+      case 'reset-position':
+        resetWindowPosition(store)
+        break
+      case 'visibility':
+        setOverlaysVisibility(command.action)
+        break
+      case 'set':
+        setFromCli(store, command.assignment)
+        break
+      case 'timer':
+        runTimerCommand(store, command.value)
+        break
+      case 'status': {
+        const status = `${JSON.stringify(getCliStatus(store), null, 2)}\n`
+        if (!request) {
+          process.stdout.write(status)
+          break
+        }
+        // Grava ao lado e renomeia, para o outro processo nunca ler pela metade.
+        const file = getStatusFile(request.id)
+        try {
+          writeFileSync(`${file}.tmp`, status)
+          renameSync(`${file}.tmp`, file)
+        } catch (error) {
+          logError('CLI', 'Failed to write status reply', error)
+        }
+        break
+      }
+    }
+  }
+
+  return true
+}
+
+/**
+ * Lado da segunda instância: espera a resposta do `--status` e imprime no
+ * stdout. O `second-instance` do Electron não tem canal de volta, então a
+ * resposta passa por um arquivo temporário com o id do pedido.
+ */
+export async function waitForCliStatus(request: CliRequest): Promise<boolean> {
+  const file = getStatusFile(request.id)
+  const deadline = Date.now() + STATUS_TIMEOUT_MS
+
+  while (Date.now() < deadline) {
+    if (existsSync(file)) {
+      try {
+        process.stdout.write(readFileSync(file, 'utf-8'))
+        return true
+      } catch (error) {
+        logError('CLI', 'Failed to read status reply', error)
+        return false
+      } finally {
+        rmSync(file, { force: true })
+      }
+    }
+    await new Promise((resolve) => setTimeout(resolve, STATUS_POLL_MS))
+  }
+
+  logError('CLI', `No status reply after ${STATUS_TIMEOUT_MS}ms`)
+  return false
+}
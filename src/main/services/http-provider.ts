@@ -0,0 +1,144 @@
+import type {
+  HttpProviderSettings,
+  TemperatureData,
+  TemperatureFieldMapping,
+  TemperatureReading,
+} from '~/shared/types'
+import { getBackoffDelay } from './backoff'
+import { logError } from './logger'
+import type {
+  TemperatureDataListener,
+  TemperatureProvider,
+  TemperatureStateListener,
+} from './temperature-provider'
+
+const MIN_INTERVAL = 5_000
+const REQUEST_TIMEOUT = 15_000
+const MAX_RETRY_DELAY = 5 * 60_000
+const OFFLINE_AFTER_ATTEMPTS = 3
+
+/**
+ * Resolve um caminho simples sobre o JSON: segmentos separados por ponto e
+ * índices entre colchetes (`$.data.items[0].temp`). Não é um JSONPath completo
+ * — sem filtros nem curingas — mas cobre as respostas de gateways comuns.
+ */
+function resolveJsonPath(source: unknown, path: string): unknown {
+  const segments = path
+    .replace(/^\$\.?/, '')
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter(Boolean)
+
+  let current: unknown = source
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object') return undefined
+    current = (current as Record<string, unknown>)[segment]
+  }
+  return current
+}
+
+function toReading(json: unknown, mapping: TemperatureFieldMapping): TemperatureReading {
+  const value = resolveJsonPath(json, mapping.valuePath)
+  const unit = mapping.unitPath ? resolveJsonPath(json, mapping.unitPath) : undefined
+
+  return {
+    value:
+      typeof value === 'number' || (typeof value === 'string' && value.trim() !== '')
+        ? String(value)
+        : null,
+    unit: typeof unit === 'string' ? unit : mapping.unit,
+    label: null,
+  }
+}
+
+function toTemperatureData(json: unknown, settings: HttpProviderSettings): TemperatureData {
+  const timestamp = settings.timestampPath
+    ? resolveJsonPath(json, settings.timestampPath)
+    : undefined
+
+  return {
+    sensTermica: toReading(json, settings.sensTermica),
+    temperatura: toReading(json, settings.temperatura),
+    timestamp: typeof timestamp === 'string' ? timestamp : new Date().toISOString(),
+  }
+}
+
+/**
+ * Provedor genérico que consulta um endpoint HTTP que responde JSON em
+ * intervalo fixo e mapeia os campos para `TemperatureData`.
+ */
+export function createHttpProvider(settings: HttpProviderSettings): TemperatureProvider {
+  const interval = Math.max(settings.intervalMs, MIN_INTERVAL)
+
+  let pollTimer: ReturnType<typeof setTimeout> | null = null
+  let controller: AbortController | null = null
+  let attempt = 0
+  let running = false
+
+  async function poll(
+    onData: TemperatureDataListener,
+    onStateChange: TemperatureStateListener,
+  ): Promise<void> {
+    controller = new AbortController()
+    const timeout = setTimeout(() => controller?.abort(), REQUEST_TIMEOUT)
+    let ok = false
+
+    try {
+      const response = await fetch(settings.url, {
+        headers: { Accept: 'application/json', ...settings.headers },
+        signal: controller.signal,
+      })
+
+      if (!response.ok) {
+        logError('Temperature HTTP', `Unexpected response status ${response.status}`, settings.url)
+        return
+      }
+
+      const json: unknown = await response.json()
+      ok = true
+      if (running) onData(toTemperatureData(json, settings))
+    } catch (error) {
+      if (running) logError('Temperature HTTP', 'Failed to fetch data', error)
+    } finally {
+      clearTimeout(timeout)
+      controller = null
+      if (running) {
+        // Falhas consecutivas usam backoff em vez do intervalo normal, para não
+        // martelar um gateway fora do ar.
+        let delay = interval
+        if (ok) {
+          attempt = 0
+          onStateChange('connected')
+        } else {
+          delay = getBackoffDelay(attempt, {
+            baseMs: MIN_INTERVAL,
+            maxMs: Math.max(interval, MAX_RETRY_DELAY),
+          })
+          attempt++
+          onStateChange(attempt > OFFLINE_AFTER_ATTEMPTS ? 'offline' : 'reconnecting')
+        }
+        pollTimer = setTimeout(() => poll(onData, onStateChange), delay)
+      }
+    }
+  }
+
+  return {
+    type: 'http',
+    source: settings.url,
+    start(onData, onStateChange) {
+      if (running) return
+      running = true
+      attempt = 0
+      onStateChange('connecting')
+      poll(onData, onStateChange)
+    },
+    stop() {
+      running = false
+      if (pollTimer) {
+        clearTimeout(pollTimer)
+        pollTimer = null
+      }
+      controller?.abort()
+    },
+  }
+}
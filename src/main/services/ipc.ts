@@ -1,25 +1,84 @@
-import { ipcMain } from 'electron'
 import { IPC } from '~/shared/ipc'
+import { isSettingKey } from '~/shared/settings-validation'
+import { getNextAlarm } from './alarms'
+import { getEffectiveTheme } from './appearance'
 import { getLastBluetoothBatteryData } from './bluetooth-battery'
 import { logAppEvent } from './logger'
+import { updateSetting } from './settings'
 import { store } from './store'
-import { getLastTemperatureData } from './temperature'
+import { getLastTemperatureData, getTemperatureConnectionState } from './temperature'
+import { getDailyTemperatureStats, getTemperatureHistory } from './temperature-history'
+import { getTimerState } from './timer'
+import { refreshTrayMenu } from './tray'
+import { handle, listen } from './typed-ipc'
+import { getDisplayList, isEditingLayout, setOverlayContentSize } from './window'
 
 export function setupIpcHandlers(): void {
-  ipcMain.on('ping', () => {
+  listen(IPC.PING, () => {
     logAppEvent('IPC ping received')
     console.log('pong', IPC.PING)
   })
 
-  ipcMain.handle(IPC.GET_TEMPERATURE, () => {
+  listen(IPC.CONTENT_SIZE_CHANGE, (event, size) => {
+    setOverlayContentSize(store, event.sender, size)
+  })
+
+  handle(IPC.GET_TEMPERATURE, () => {
     return getLastTemperatureData()
   })
 
-  ipcMain.handle(IPC.GET_TEMPERATURE_DISPLAY, () => {
-    return store.get('temperatureDisplay')
+  handle(IPC.GET_TEMPERATURE_STATUS, () => {
+    return getTemperatureConnectionState()
+  })
+
+  handle(IPC.GET_TEMPERATURE_HISTORY, (_event, from, to) => {
+    return getTemperatureHistory(from, to)
+  })
+
+  handle(IPC.GET_TEMPERATURE_DAILY_STATS, (_event, date) => {
+    return getDailyTemperatureStats(date)
+  })
+
+  handle(IPC.GET_THEME, () => {
+    return getEffectiveTheme(store)
+  })
+
+  handle(IPC.GET_NEXT_ALARM, () => {
+    return getNextAlarm(store)
+  })
+
+  handle(IPC.GET_TIMER, () => {
+    return getTimerState()
+  })
+
+  handle(IPC.GET_SETTINGS, () => {
+    return store.store
+  })
+
+  handle(IPC.GET_SETTING, (_event, key) => {
+    if (!isSettingKey(key)) throw new Error(`configuração desconhecida: ${String(key)}`)
+    return store.get(key)
+  })
+
+  handle(IPC.SET_SETTING, (_event, key, value) => {
+    // O contrato tipa o que o renderer deveria mandar; a validação continua aqui.
+    if (!isSettingKey(key)) {
+      return { ok: false, error: `configuração desconhecida: ${String(key)}` }
+    }
+    const result = updateSetting(store, key, value as never)
+    if (result.ok) refreshTrayMenu()
+    return result
+  })
+
+  handle(IPC.GET_DISPLAYS, () => {
+    return getDisplayList()
+  })
+
+  handle(IPC.GET_EDIT_LAYOUT, () => {
+    return isEditingLayout()
   })
 
-  ipcMain.handle(IPC.GET_BLUETOOTH_BATTERY, () => {
+  handle(IPC.GET_BLUETOOTH_BATTERY, () => {
     return getLastBluetoothBatteryData()
   })
 }
@@ -0,0 +1,242 @@
+import { readFileSync, writeFileSync } from 'node:fs'
+import { basename, extname } from 'node:path'
+import { app, dialog } from 'electron'
+import Store from 'electron-store'
+import {
+  isSettingKey,
+  NON_PROFILE_KEYS,
+  validateProfileSettings,
+} from '~/shared/settings-validation'
+import type {
+  ProfileSettings,
+  SettingsExportFile,
+  SettingsProfile,
+  StoreSchema,
+} from '~/shared/types'
+import { logAppEvent, logError } from './logger'
+import { updateSetting } from './settings'
+
+const PROFILE_FILE_FILTERS = [{ name: 'Configurações (JSON)', extensions: ['json'] }]
+const MAX_DIFF_LINES = 25
+
+/**
+ * Tudo o que um perfil leva: as configurações conhecidas menos
+ * `NON_PROFILE_KEYS`. Filtra pelas chaves de configuração porque o store
+ * também guarda dados internos (ex.: `__internal__` das migrações).
+ */
+function getProfileSettings(store: Store<StoreSchema>): ProfileSettings {
+  const keys = Object.keys(store.store).filter(
+    (key): key is keyof StoreSchema => isSettingKey(key) && !NON_PROFILE_KEYS.includes(key),
+  )
+  return Object.fromEntries(keys.map((key) => [key, store.get(key)])) as ProfileSettings
+}
+
+/**
+ * Aplica as chaves do perfil pelo caminho normal das configurações, para que
+ * efeitos colaterais (login, provedores, janelas) aconteçam como na bandeja.
+ * Retorna as chaves recusadas, no formato "chave: erro".
+ */
+function applySettings(store: Store<StoreSchema>, settings: Partial<ProfileSettings>): string[] {
+  const failures: string[] = []
+  for (const [key, value] of Object.entries(settings)) {
+    const result = isSettingKey(key)
+      ? updateSetting(store, key, value as never)
+      : { ok: false as const, error: 'configuração desconhecida' }
+    if (!result.ok) failures.push(`${key}: ${result.error}`)
+  }
+  return failures
+}
+
+function showFailures(title: string, message: string, failures: string[]): void {
+  logError('PROFILES', message, failures)
+  dialog.showErrorBox(title, `${message}\n\n${failures.join('\n')}`)
+}
+
+/**
+ * Linhas "caminho: antes → depois" com as diferenças entre dois valores,
+ * descendo em objetos; listas são comparadas inteiras.
+ */
+function describeChanges(before: unknown, after: unknown, path = ''): string[] {
+  if (JSON.stringify(before) === JSON.stringify(after)) return []
+
+  const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+    return [...keys].flatMap((key) =>
+      describeChanges(before[key], after[key], path ? `${path}.${key}` : key),
+    )
+  }
+
+  const format = (value: unknown) => {
+    const text = value === undefined ? '(nada)' : JSON.stringify(value)
+    return text.length > 40 ? `${text.slice(0, 39)}…` : text
+  }
+  return [`${path}: ${format(before)} → ${format(after)}`]
+}
+
+function saveProfile(store: Store<StoreSchema>, profile: SettingsProfile): boolean {
+  const profiles = store.get('profiles').filter((p) => p.name !== profile.name)
+  const result = updateSetting(store, 'profiles', [...profiles, profile])
+  if (!result.ok) {
+    showFailures('Perfis', `Não foi possível salvar o perfil "${profile.name}".`, [result.error])
+  }
+  return result.ok
+}
+
+/**
+ * Aplica o perfil. Com alguma chave recusada ele não vira o perfil ativo,
+ * já que as configurações atuais não correspondem mais a ele.
+ */
+export function applyProfile(store: Store<StoreSchema>, name: string): void {
+  const profile = store.get('profiles').find((p) => p.name === name)
+  if (!profile) return
+
+  const failures = applySettings(store, profile.settings)
+  if (failures.length > 0) {
+    showFailures('Perfis', `O perfil "${name}" foi aplicado só em parte.`, failures)
+    return
+  }
+  updateSetting(store, 'activeProfile', profile.name)
+  logAppEvent('Profile applied', { name })
+}
+
+/**
+ * Grava as configurações atuais no perfil `name` ou, com `null`, num novo
+ * "Perfil N" (o nome pode ser trocado na janela de configurações).
+ */
+export function saveCurrentAsProfile(store: Store<StoreSchema>, name: string | null): void {
+  let profileName = name
+  if (!profileName) {
+    const profiles = store.get('profiles')
+    let index = profiles.length + 1
+    while (profiles.some((p) => p.name === `Perfil ${index}`)) index++
+    profileName = `Perfil ${index}`
+  }
+
+  if (!saveProfile(store, { name: profileName, settings: getProfileSettings(store) })) return
+  updateSetting(store, 'activeProfile', profileName)
+  logAppEvent('Profile saved', { name: profileName })
+}
+
+export function deleteProfile(store: Store<StoreSchema>, name: string): void {
+  updateSetting(
+    store,
+    'profiles',
+    store.get('profiles').filter((p) => p.name !== name),
+  )
+  if (store.get('activeProfile') === name) updateSetting(store, 'activeProfile', null)
+  logAppEvent('Profile deleted', { name })
+}
+
+export async function exportSettings(store: Store<StoreSchema>): Promise<void> {
+  const profileName = store.get('activeProfile')
+  const { canceled, filePath } = await dialog.showSaveDialog({
+    title: 'Exportar configurações',
+    defaultPath: `${profileName ?? 'desktop-widget-clock'}.json`,
+    filters: PROFILE_FILE_FILTERS,
+  })
+  if (canceled || !filePath) return
+
+  const file: SettingsExportFile = {
+    app: 'desktop-widget-clock',
+    version: app.getVersion(),
+    exportedAt: new Date().toISOString(),
+    profileName,
+    settings: getProfileSettings(store),
+  }
+
+  try {
+    writeFileSync(filePath, `${JSON.stringify(file, null, 2)}\n`)
+    logAppEvent('Settings exported', { filePath })
+  } catch (error) {
+    logError('PROFILES', `Failed to export settings ${filePath}`, error)
+    dialog.showErrorBox('Exportar configurações', 'Não foi possível salvar o arquivo.')
+  }
+}
+
+/**
+ * Lê um arquivo exportado, valida, mostra o que vai mudar e deixa escolher
+ * entre aplicar agora ou só guardar como perfil.
+ */
+export async function importSettings(store: Store<StoreSchema>): Promise<void> {
+  const { canceled, filePaths } = await dialog.showOpenDialog({
+    title: 'Importar configurações',
+    filters: PROFILE_FILE_FILTERS,
+    properties: ['openFile'],
+  })
+  if (canceled || filePaths.length === 0) return
+
+  const [filePath] = filePaths
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(readFileSync(filePath, 'utf-8'))
+  } catch (error) {
+    logError('PROFILES', `Failed to read settings ${filePath}`, error)
+    dialog.showErrorBox('Importar configurações', 'Não foi possível ler o arquivo como JSON.')
+    return
+  }
+
+  // `null`, número ou lista também são JSON válido.
+  const file =
+    typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+      ? (parsed as Partial<SettingsExportFile>)
+      : null
+  const error = !file
+    ? 'o conteúdo não é um objeto'
+    : file.app !== 'desktop-widget-clock'
+      ? 'o arquivo não é uma exportação do Desktop Widget Clock'
+      : validateProfileSettings(file.settings)
+  if (error || !file?.settings) {
+    logError('PROFILES', `Invalid settings file ${filePath}`, error)
+    dialog.showErrorBox('Importar configurações', `Arquivo inválido: ${error}`)
+    return
+  }
+
+  const settings = file.settings
+  const profileName = file.profileName || basename(filePath, extname(filePath))
+  const current = getProfileSettings(store)
+  const changes = describeChanges(
+    Object.fromEntries(
+      Object.keys(settings).map((key) => [key, current[key as keyof ProfileSettings]]),
+    ),
+    settings,
+  )
+  const preview =
+    changes.length === 0
+      ? 'Nenhuma diferença em relação às configurações atuais.'
+      : [
+          ...changes.slice(0, MAX_DIFF_LINES),
+          ...(changes.length > MAX_DIFF_LINES
+            ? [`… e mais ${changes.length - MAX_DIFF_LINES} alteração(ões)`]
+            : []),
+        ].join('\n')
+
+  const { response } = await dialog.showMessageBox({
+    type: 'question',
+    title: 'Importar configurações',
+    message: `Importar "${profileName}" (versão ${file.version ?? '?'})?`,
+    detail: preview,
+    buttons: ['Aplicar', `Só salvar como perfil "${profileName}"`, 'Cancelar'],
+    defaultId: 0,
+    cancelId: 2,
+  })
+  if (response === 2) return
+
+  if (!saveProfile(store, { name: profileName, settings })) return
+  if (response === 0) {
+    const failures = applySettings(store, settings)
+    if (failures.length > 0) {
+      showFailures('Importar configurações', 'Algumas configurações foram recusadas.', failures)
+    } else {
+      updateSetting(store, 'activeProfile', profileName)
+    }
+  }
+  logAppEvent('Settings imported', {
+    filePath,
+    profileName,
+    applied: response === 0,
+    changes: changes.length,
+  })
+}
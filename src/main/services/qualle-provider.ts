@@ -0,0 +1,230 @@
+import type { QualleProviderSettings, TemperatureData } from '~/shared/types'
+import { getBackoffDelay } from './backoff'
+import { logAppEvent, logError } from './logger'
+import type {
+  TemperatureDataListener,
+  TemperatureProvider,
+  TemperatureStateListener,
+} from './temperature-provider'
+
+const BACKOFF = { baseMs: 1_000, maxMs: 60_000 }
+const OFFLINE_AFTER_ATTEMPTS = 3
+const PING_INTERVAL = 30_000
+const PONG_TIMEOUT = 10_000
+const DATA_TIMEOUT = 5 * 60_000
+const HANDSHAKE_TIMEOUT = 30_000
+
+type AtualValue = {
+  value: number | null
+  unit: { value: string | null } | null
+}
+
+type QualleMeteorologia = {
+  codigo: string
+  timestamp: string
+  data: {
+    temperatura: { atual: AtualValue | null } | null
+    senstermica: { atual: AtualValue | null } | null
+  } | null
+}
+
+type NowcastingPayload = {
+  nowcasting_unique: { qualle_meteorologia: QualleMeteorologia | null } | null
+}
+
+type WsMessage = {
+  id?: string
+  type: 'connection_ack' | 'next' | 'error' | 'complete' | 'ping' | 'pong'
+  payload?: { data?: NowcastingPayload; errors?: unknown }
+}
+
+function buildSubscriptionQuery(settings: QualleProviderSettings): string {
+  const clients = JSON.stringify(settings.clients)
+  const station = JSON.stringify([settings.station])
+  return `subscription {
+  nowcasting_unique(clients: ${clients}, station: ${station}) {
+    qualle_meteorologia {
+      codigo
+      timestamp
+      data {
+        temperatura { atual { value unit { value } } }
+        senstermica { atual { value unit { value } } }
+      }
+    }
+  }
+}`
+}
+
+function parsePayload(payload: NowcastingPayload | undefined): TemperatureData | null {
+  const estacao = payload?.nowcasting_unique?.qualle_meteorologia
+  if (!estacao) return null
+
+  const temperaturaAtual = estacao.data?.temperatura?.atual
+  const sensTermicaAtual = estacao.data?.senstermica?.atual
+
+  return {
+    sensTermica: {
+      value: sensTermicaAtual?.value != null ? String(sensTermicaAtual.value) : null,
+      unit: sensTermicaAtual?.unit?.value ?? null,
+      label: null,
+    },
+    temperatura: {
+      value: temperaturaAtual?.value != null ? String(temperaturaAtual.value) : null,
+      unit: temperaturaAtual?.unit?.value ?? null,
+      label: null,
+    },
+    timestamp: estacao.timestamp ?? new Date().toISOString(),
+  }
+}
+
+/**
+ * Provedor da plataforma Qualle (Defesa Civil) via GraphQL subscription sobre
+ * WebSocket, protocolo `graphql-transport-ws`.
+ *
+ * A conexão é considerada morta quando o `connection_ack` não chega dentro de
+ * `HANDSHAKE_TIMEOUT`, quando o servidor não responde ao `ping` ou quando
+ * nenhum `next` chega dentro de `DATA_TIMEOUT`; nesses casos o socket é
+ * fechado e a reconexão segue com backoff exponencial.
+ */
+export function createQualleProvider(settings: QualleProviderSettings): TemperatureProvider {
+  const query = buildSubscriptionQuery(settings)
+
+  let ws: WebSocket | null = null
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  let pingTimer: ReturnType<typeof setInterval> | null = null
+  let pongTimer: ReturnType<typeof setTimeout> | null = null
+  let dataTimer: ReturnType<typeof setTimeout> | null = null
+  let attempt = 0
+  let running = false
+  let onData: TemperatureDataListener | null = null
+  let onStateChange: TemperatureStateListener | null = null
+
+  function clearTimers(): void {
+    if (pingTimer) clearInterval(pingTimer)
+    if (pongTimer) clearTimeout(pongTimer)
+    if (dataTimer) clearTimeout(dataTimer)
+    pingTimer = null
+    pongTimer = null
+    dataTimer = null
+  }
+
+  function scheduleReconnect(): void {
+    if (!running) return
+
+    const delay = getBackoffDelay(attempt, BACKOFF)
+    attempt++
+    onStateChange?.(attempt > OFFLINE_AFTER_ATTEMPTS ? 'offline' : 'reconnecting')
+    logAppEvent('Temperature WS reconnect scheduled', { attempt, delay })
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null
+      connect()
+    }, delay)
+  }
+
+  /**
+   * Um socket sem resposta pode demorar para concluir o handshake de
+   * fechamento, então o `onclose` é desligado e a reconexão agendada na hora.
+   */
+  function dropConnection(socket: WebSocket, reason: string): void {
+    logError('Temperature WS', 'Connection considered dead, closing', reason)
+    clearTimers()
+    socket.onclose = null
+    socket.close()
+    if (ws === socket) ws = null
+    scheduleReconnect()
+  }
+
+  function armDataTimeout(socket: WebSocket): void {
+    if (dataTimer) clearTimeout(dataTimer)
+    dataTimer = setTimeout(() => dropConnection(socket, 'no data'), DATA_TIMEOUT)
+  }
+
+  function connect(): void {
+    if (!running) return
+
+    const socket = new WebSocket(settings.endpoint, ['graphql-transport-ws'])
+    ws = socket
+    let subscribed = false
+    // Cobre o socket que nunca abre e o servidor que nunca confirma; o
+    // `connection_ack` troca este timer pelo de dados.
+    dataTimer = setTimeout(() => dropConnection(socket, 'no connection_ack'), HANDSHAKE_TIMEOUT)
+
+    socket.onopen = () => {
+      socket.send(JSON.stringify({ type: 'connection_init', payload: {} }))
+    }
+
+    socket.onmessage = (event) => {
+      try {
+        const msg = JSON.parse(event.data as string) as WsMessage
+
+        if (msg.type === 'connection_ack' && !subscribed) {
+          subscribed = true
+          attempt = 0
+          onStateChange?.('connected')
+          socket.send(
+            JSON.stringify({
+              id: '1',
+              type: 'subscribe',
+              payload: { query, variables: {} },
+            }),
+          )
+          armDataTimeout(socket)
+          pingTimer = setInterval(() => {
+            socket.send(JSON.stringify({ type: 'ping' }))
+            pongTimer ??= setTimeout(() => dropConnection(socket, 'no pong'), PONG_TIMEOUT)
+          }, PING_INTERVAL)
+        } else if (msg.type === 'ping') {
+          socket.send(JSON.stringify({ type: 'pong' }))
+        } else if (msg.type === 'pong') {
+          if (pongTimer) clearTimeout(pongTimer)
+          pongTimer = null
+        } else if (msg.type === 'next' && msg.id === '1') {
+          armDataTimeout(socket)
+          const data = parsePayload(msg.payload?.data)
+          if (data) onData?.(data)
+        } else if (msg.type === 'error') {
+          logError('Temperature WS', 'Subscription error', msg.payload)
+        }
+      } catch (error) {
+        logError('Temperature WS', 'Failed to parse message', error)
+      }
+    }
+
+    socket.onerror = () => {
+      logError('Temperature WS', 'WebSocket connection error')
+    }
+
+    socket.onclose = () => {
+      clearTimers()
+      ws = null
+      scheduleReconnect()
+    }
+  }
+
+  return {
+    type: 'qualle',
+    source: settings.station,
+    start(dataListener, stateListener) {
+      if (running) return
+      running = true
+      attempt = 0
+      onData = dataListener
+      onStateChange = stateListener
+      stateListener('connecting')
+      connect()
+    },
+    stop() {
+      running = false
+      clearTimers()
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer)
+        reconnectTimer = null
+      }
+      if (ws) {
+        ws.onclose = null
+        ws.close()
+        ws = null
+      }
+    },
+  }
+}
@@ -0,0 +1,59 @@
+import { join } from 'node:path'
+import { app, BrowserWindow } from 'electron'
+import { logWindowEvent } from './logger'
+
+const SETTINGS_WIDTH = 560
+const SETTINGS_HEIGHT = 720
+const SETTINGS_ROUTE = '/settings'
+
+let settingsWindow: BrowserWindow | null = null
+
+export function getSettingsWindow(): BrowserWindow | null {
+  return settingsWindow
+}
+
+/**
+ * Abre (ou traz para frente) a janela de configurações. Ela usa o mesmo bundle
+ * do renderer com a rota `#/settings`; ao contrário do overlay, é uma janela
+ * comum, focável e com moldura.
+ */
+export function openSettingsWindow(): BrowserWindow {
+  if (settingsWindow && !settingsWindow.isDestroyed()) {
+    if (settingsWindow.isMinimized()) settingsWindow.restore()
+    settingsWindow.focus()
+    return settingsWindow
+  }
+
+  settingsWindow = new BrowserWindow({
+    title: 'Configurações — Desktop Widget Clock',
+    width: SETTINGS_WIDTH,
+    height: SETTINGS_HEIGHT,
+    minWidth: 420,
+    minHeight: 400,
+    show: false,
+    autoHideMenuBar: true,
+    backgroundColor: '#171717',
+    webPreferences: {
+      preload: join(__dirname, '../preload/index.mjs'),
+      sandbox: false,
+    },
+  })
+
+  settingsWindow.on('ready-to-show', () => {
+    settingsWindow?.show()
+    logWindowEvent('settings:ready-to-show')
+  })
+
+  settingsWindow.on('closed', () => {
+    logWindowEvent('settings:closed')
+    settingsWindow = null
+  })
+
+  if (!app.isPackaged && process.env.ELECTRON_RENDERER_URL) {
+    settingsWindow.loadURL(`${process.env.ELECTRON_RENDERER_URL}#${SETTINGS_ROUTE}`)
+  } else {
+    settingsWindow.loadFile(join(__dirname, '../renderer/index.html'), { hash: SETTINGS_ROUTE })
+  }
+
+  return settingsWindow
+}
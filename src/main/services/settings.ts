@@ -0,0 +1,72 @@
+import { app } from 'electron'
+import Store from 'electron-store'
+import { IPC } from '~/shared/ipc'
+import { SETTING_VALIDATORS, validateSetting } from '~/shared/settings-validation'
+import type { SettingUpdateResult, StoreSchema } from '~/shared/types'
+import { logAppEvent, logError } from './logger'
+import { broadcast } from './typed-ipc'
+
+let unsubscribeStore: (() => void)[] = []
+
+/**
+ * Ponto único de escrita das configurações vindas da bandeja ou da janela de
+ * configurações: valida, grava e aplica efeitos colaterais. O aviso às janelas
+ * sai de `watchSettings`, que também pega escritas feitas direto no store.
+ */
+export function updateSetting<K extends keyof StoreSchema>(
+  store: Store<StoreSchema>,
+  key: K,
+  value: StoreSchema[K],
+): SettingUpdateResult {
+  const error = validateSetting(key, value)
+  if (error) {
+    logError('SETTINGS', `Invalid value for ${key}`, error)
+    return { ok: false, error }
+  }
+
+  try {
+    store.set(key, value)
+  } catch (storeError) {
+    logError('SETTINGS', `Store rejected value for ${key}`, storeError)
+    return { ok: false, error: 'valor rejeitado pelo schema do store' }
+  }
+  logAppEvent('Setting changed', { key, value })
+
+  if (key === 'openAtLogin') {
+    app.setLoginItemSettings({ openAtLogin: value as boolean, path: app.getPath('exe') })
+  }
+
+  return { ok: true }
+}
+
+/**
+ * Atualiza só alguns campos de uma configuração do tipo objeto.
+ */
+export function patchSetting<K extends keyof StoreSchema>(
+  store: Store<StoreSchema>,
+  key: K,
+  changes: Partial<StoreSchema[K]>,
+): SettingUpdateResult {
+  return updateSetting(store, key, { ...(store.get(key) as object), ...changes } as StoreSchema[K])
+}
+
+/**
+ * Envia a todas as janelas cada chave do store que mudar, venha a escrita de
+ * onde vier. Com isso uma opção nova fica ao vivo no renderer (`useSetting`)
+ * sem canal próprio.
+ */
+export function watchSettings(store: Store<StoreSchema>): void {
+  if (unsubscribeStore.length > 0) return
+
+  const keys = Object.keys(SETTING_VALIDATORS) as (keyof StoreSchema)[]
+  unsubscribeStore = keys.map((key) =>
+    store.onDidChange(key, (value) => {
+      if (value !== undefined) broadcast(IPC.SETTINGS_CHANGE, key, value)
+    }),
+  )
+}
+
+export function unwatchSettings(): void {
+  for (const unsubscribe of unsubscribeStore) unsubscribe()
+  unsubscribeStore = []
+}
@@ -0,0 +1,198 @@
+import type { Schema } from 'electron-store'
+import type { StoreSchema } from '~/shared/types'
+
+type ValueSchema = Schema<StoreSchema>[keyof StoreSchema]
+
+const HH_MM = '^([01]\\d|2[0-3]):[0-5]\\d$'
+
+const THEME_SEGMENTS = ['clock', 'worldClock', 'temperature', 'range', 'status', 'battery']
+
+function object(properties: Record<string, ValueSchema>): ValueSchema {
+  return { type: 'object', properties, required: Object.keys(properties) }
+}
+
+function nullable(schema: ValueSchema): ValueSchema {
+  return { anyOf: [{ type: 'null' }, schema] }
+}
+
+function integer(minimum: number, maximum: number): ValueSchema {
+  return { type: 'integer', minimum, maximum }
+}
+
+function number(minimum: number, maximum: number): ValueSchema {
+  return { type: 'number', minimum, maximum }
+}
+
+function oneOf(...values: string[]): ValueSchema {
+  return { type: 'string', enum: values }
+}
+
+function arrayOf(items: ValueSchema): ValueSchema {
+  return { type: 'array', items }
+}
+
+const boolean: ValueSchema = { type: 'boolean' }
+const string: ValueSchema = { type: 'string' }
+const nonEmptyString: ValueSchema = { type: 'string', minLength: 1 }
+const nullableString = nullable(string)
+
+const fieldMapping = object({
+  valuePath: nonEmptyString,
+  unitPath: nullableString,
+  unit: nullableString,
+})
+
+const windowAnchorProperties: Record<string, ValueSchema> = {
+  corner: oneOf(
+    'top-left',
+    'top-center',
+    'top-right',
+    'bottom-left',
+    'bottom-center',
+    'bottom-right',
+  ),
+  display: { anyOf: [oneOf('primary', 'cursor'), { type: 'integer' }] },
+  marginX: integer(0, 2000),
+  marginY: integer(0, 2000),
+  useWorkArea: boolean,
+  freePosition: nullable(
+    object({ displayId: { type: 'integer' }, x: { type: 'number' }, y: { type: 'number' } }),
+  ),
+}
+
+const windowAnchor = object(windowAnchorProperties)
+
+const theme = object({
+  name: nonEmptyString,
+  fontFamily: nonEmptyString,
+  colors: object(Object.fromEntries(THEME_SEGMENTS.map((segment) => [segment, nonEmptyString]))),
+  fontSizes: object(
+    Object.fromEntries(THEME_SEGMENTS.map((segment) => [segment, integer(6, 200)])),
+  ),
+  textShadow: nullableString,
+  background: nullable(
+    object({ color: nonEmptyString, radius: integer(0, 100), paddingX: integer(0, 100) }),
+  ),
+  opacity: number(0.1, 1),
+})
+
+const appearanceTime: ValueSchema = {
+  anyOf: [
+    object({ kind: { const: 'clock' }, time: { type: 'string', pattern: HH_MM } }),
+    object({ kind: oneOf('sunrise', 'sunset'), offsetMinutes: integer(-720, 720) }),
+  ],
+}
+
+/**
+ * JSON schema do store, verificado pelo `electron-store` ao abrir o arquivo e
+ * a cada escrita. Espelha `SETTING_VALIDATORS`, que continua dando as mensagens
+ * amigáveis na janela de configurações. Por isso nunca é mais restrito que eles:
+ * regras que dependem de código (URL, fuso, data, mínimo menor que máximo)
+ * ficam só lá.
+ */
+export const STORE_SCHEMA: Schema<StoreSchema> = {
+  windowPosition: nullable(object({ x: { type: 'number' }, y: { type: 'number' } })),
+  windowAnchor,
+  overlayInstances: object({
+    mode: oneOf('single', 'all', 'selected'),
+    displayIds: arrayOf({ type: 'integer' }),
+    // Por monitor só os campos que mudam; o resto vem de `windowAnchor`.
+    anchors: {
+      type: 'object',
+      additionalProperties: {
+        type: 'object',
+        properties: windowAnchorProperties,
+        additionalProperties: false,
+      },
+    },
+  }),
+  windowSize: object({
+    minWidth: integer(16, 4000),
+    maxWidth: integer(16, 4000),
+    minHeight: integer(16, 1000),
+    maxHeight: integer(16, 1000),
+  }),
+  theme,
+  customThemes: arrayOf(theme),
+  appearanceSchedule: object({
+    enabled: boolean,
+    latitude: number(-90, 90),
+    longitude: number(-180, 180),
+    rules: arrayOf(
+      object({
+        name: nonEmptyString,
+        from: appearanceTime,
+        to: appearanceTime,
+        theme: nullableString,
+        opacity: nullable(number(0.1, 1)),
+      }),
+    ),
+  }),
+  alarms: arrayOf(
+    object({
+      id: nonEmptyString,
+      label: string,
+      time: { type: 'string', pattern: HH_MM },
+      weekdays: { type: 'array', items: integer(0, 6), uniqueItems: true },
+      enabled: boolean,
+      sound: boolean,
+      snoozeMinutes: integer(1, 120),
+      snoozedUntil: nullableString,
+    }),
+  ),
+  timers: object({
+    countdownPresets: { type: 'array', items: integer(1, 1440), minItems: 1 },
+    pomodoro: object({
+      workMinutes: integer(1, 240),
+      shortBreakMinutes: integer(1, 120),
+      longBreakMinutes: integer(1, 240),
+      cyclesBeforeLongBreak: integer(1, 12),
+    }),
+  }),
+  // O conteúdo de cada perfil é conferido chave a chave por `SETTING_VALIDATORS`.
+  profiles: arrayOf(object({ name: nonEmptyString, settings: { type: 'object' } })),
+  activeProfile: nullableString,
+  openAtLogin: boolean,
+  temperatureDisplay: oneOf('temperatura', 'sensTermica'),
+  temperatureProvider: oneOf('qualle', 'http'),
+  qualleProvider: object({
+    endpoint: nonEmptyString,
+    station: nonEmptyString,
+    stations: arrayOf(string),
+    clients: { type: 'array', items: string, minItems: 1 },
+  }),
+  httpProvider: object({
+    url: nonEmptyString,
+    intervalMs: integer(5_000, 24 * 60 * 60 * 1000),
+    headers: { type: 'object', additionalProperties: string },
+    temperatura: fieldMapping,
+    sensTermica: fieldMapping,
+    timestampPath: nullableString,
+  }),
+  temperatureHistory: object({
+    retentionDays: integer(1, 365),
+    maxSamples: integer(100, 500_000),
+  }),
+  temperatureSparkline: object({ enabled: boolean, hours: integer(1, 72) }),
+  temperatureFormat: object({
+    unit: oneOf('C', 'F', 'K'),
+    decimals: integer(0, 3),
+    locale: nonEmptyString,
+    showUnit: boolean,
+  }),
+  clockFormat: object({
+    hour12: boolean,
+    showSeconds: boolean,
+    showWeekday: boolean,
+    showDate: boolean,
+    showWeekNumber: boolean,
+    pattern: nullable(nonEmptyString),
+    locale: nonEmptyString,
+  }),
+  clockFace: oneOf('digital', 'analog', 'binary'),
+  worldClocks: object({
+    zones: arrayOf(object({ timeZone: nonEmptyString, label: nonEmptyString })),
+    mode: oneOf('inline', 'cycle'),
+    cycleSeconds: integer(1, 3600),
+  }),
+}
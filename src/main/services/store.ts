@@ -1,10 +1,187 @@
-import Store from 'electron-store'
+import { copyFileSync, existsSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { app } from 'electron'
+import Store, { type Options } from 'electron-store'
+import { isSettingKey, validateSetting } from '~/shared/settings-validation'
+import { DEFAULT_THEME } from '~/shared/themes'
 import type { StoreSchema } from '~/shared/types'
+import { logAppEvent, logError } from './logger'
+import { STORE_SCHEMA } from './store-schema'
 
-export const store = new Store<StoreSchema>({
-  defaults: {
-    windowPosition: null,
-    openAtLogin: true,
-    temperatureDisplay: 'temperatura',
+const CONFIG_FILE = join(app.getPath('userData'), 'config.json')
+
+const STORE_DEFAULTS: StoreSchema = {
+  windowPosition: null,
+  windowAnchor: {
+    corner: 'bottom-left',
+    display: 'primary',
+    marginX: 0,
+    marginY: 0,
+    useWorkArea: false,
+    freePosition: null,
+  },
+  windowSize: {
+    minWidth: 80,
+    maxWidth: 1600,
+    minHeight: 24,
+    maxHeight: 200,
+  },
+  theme: DEFAULT_THEME,
+  customThemes: [],
+  appearanceSchedule: {
+    enabled: false,
+    // Florianópolis (sede da Defesa Civil de SC), origem da estação padrão.
+    latitude: -27.5954,
+    longitude: -48.548,
+    rules: [
+      {
+        name: 'Noite',
+        from: { kind: 'clock', time: '22:00' },
+        to: { kind: 'clock', time: '06:00' },
+        theme: null,
+        opacity: 0.4,
+      },
+    ],
+  },
+  overlayInstances: {
+    mode: 'single',
+    displayIds: [],
+    anchors: {},
+  },
+  alarms: [],
+  timers: {
+    countdownPresets: [1, 5, 10, 15, 25, 45, 60],
+    pomodoro: {
+      workMinutes: 25,
+      shortBreakMinutes: 5,
+      longBreakMinutes: 15,
+      cyclesBeforeLongBreak: 4,
+    },
+  },
+  profiles: [],
+  activeProfile: null,
+  openAtLogin: true,
+  temperatureDisplay: 'temperatura',
+  temperatureProvider: 'qualle',
+  qualleProvider: {
+    endpoint: 'wss://monitoramento-dcsc.quallecontrol.com.br/graphql',
+    station: 'DCSC-00034',
+    stations: ['DCSC-00034'],
+    clients: ['secretaria-de-defesa-civil'],
+  },
+  httpProvider: {
+    url: 'http://localhost:8080/weather',
+    intervalMs: 60_000,
+    headers: {},
+    temperatura: { valuePath: 'temperatura', unitPath: null, unit: '°C' },
+    sensTermica: { valuePath: 'sensTermica', unitPath: null, unit: '°C' },
+    timestampPath: null,
+  },
+  temperatureHistory: {
+    retentionDays: 7,
+    maxSamples: 20_000,
+  },
+  temperatureSparkline: {
+    enabled: false,
+    hours: 6,
+  },
+  temperatureFormat: {
+    unit: 'C',
+    decimals: 1,
+    locale: 'pt-BR',
+    showUnit: false,
+  },
+  clockFormat: {
+    hour12: false,
+    showSeconds: true,
+    showWeekday: false,
+    showDate: false,
+    showWeekNumber: false,
+    pattern: null,
+    locale: 'pt-BR',
   },
-})
+  clockFace: 'digital',
+  worldClocks: {
+    zones: [],
+    mode: 'inline',
+    cycleSeconds: 5,
+  },
+}
+
+/**
+ * Migrações por versão do app (semver). O `electron-store` roda, em ordem, as
+ * que forem mais novas que a última aplicada e até a versão atual. Chaves novas
+ * não precisam de migração (vêm de `STORE_DEFAULTS`); entram aqui só mudanças
+ * de formato de dados já gravados, junto com o aumento da versão no
+ * package.json. Mesmo vazio, o mapa faz o store registrar a versão em que foi
+ * gravado, que é o ponto de partida das próximas migrações.
+ */
+const STORE_MIGRATIONS: Options<StoreSchema>['migrations'] = {}
+
+const STORE_OPTIONS: Options<StoreSchema> = {
+  defaults: STORE_DEFAULTS,
+  schema: STORE_SCHEMA,
+  migrations: STORE_MIGRATIONS,
+  beforeEachMigration: (_store, context) => {
+    logAppEvent('Store migration', {
+      from: context.fromVersion,
+      to: context.toVersion,
+      target: context.finalVersion,
+    })
+  },
+}
+
+/**
+ * Remove do arquivo as chaves com valor inválido (voltam ao padrão) e mantém
+ * as demais. JSON ilegível apaga o arquivo inteiro. Retorna as chaves removidas
+ * (`*` quando o arquivo todo foi descartado).
+ */
+function repairConfigFile(): string[] {
+  let data: Record<string, unknown>
+  try {
+    data = JSON.parse(readFileSync(CONFIG_FILE, 'utf-8'))
+  } catch {
+    rmSync(CONFIG_FILE, { force: true })
+    return ['*']
+  }
+
+  const removed = Object.keys(data).filter(
+    (key) => isSettingKey(key) && validateSetting(key, data[key]) !== null,
+  )
+  for (const key of removed) delete data[key]
+  writeFileSync(CONFIG_FILE, JSON.stringify(data, null, '\t'))
+  return removed
+}
+
+/**
+ * Abre o store; se o arquivo estiver corrompido ou violar o schema, guarda uma
+ * cópia ao lado (`config.corrupt-<data>.json`), descarta só o que é inválido e
+ * tenta de novo. Em último caso começa dos padrões.
+ */
+function createStore(): Store<StoreSchema> {
+  try {
+    return new Store<StoreSchema>(STORE_OPTIONS)
+  } catch (error) {
+    logError('STORE', 'Invalid config file', error)
+  }
+
+  if (existsSync(CONFIG_FILE)) {
+    const backup = join(
+      app.getPath('userData'),
+      `config.corrupt-${new Date().toISOString().replace(/[:.]/g, '-')}.json`,
+    )
+    copyFileSync(CONFIG_FILE, backup)
+    const removed = repairConfigFile()
+    logAppEvent('Config file repaired', { backup, removed })
+  }
+
+  try {
+    return new Store<StoreSchema>(STORE_OPTIONS)
+  } catch (error) {
+    logError('STORE', 'Config file still invalid, starting from defaults', error)
+    rmSync(CONFIG_FILE, { force: true })
+    return new Store<StoreSchema>(STORE_OPTIONS)
+  }
+}
+
+export const store = createStore()
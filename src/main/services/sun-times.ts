@@ -0,0 +1,50 @@
+const RAD = Math.PI / 180
+const DAY_MS = 24 * 60 * 60 * 1000
+const J1970 = 2440587.5
+const J2000 = 2451545
+// Altura do centro do sol no nascer/pôr, já com refração e raio do disco.
+const SUN_ALTITUDE = -0.833
+const EARTH_OBLIQUITY = 23.4397
+
+export type SunTimes = {
+  sunrise: Date | null
+  sunset: Date | null
+}
+
+function fromJulian(julianDay: number): Date {
+  return new Date((julianDay - J1970) * DAY_MS)
+}
+
+/**
+ * Nascer e pôr do sol do dia (local) de `date`, pela equação do nascer do sol
+ * (precisão de ~1 minuto, suficiente para trocar o tema). Retorna `null` nos
+ * dois em dias sem nascer/pôr (noite polar ou sol da meia-noite).
+ */
+export function getSunTimes(date: Date, latitude: number, longitude: number): SunTimes {
+  const utcMidnight = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate())
+  const day = Math.ceil(utcMidnight / DAY_MS + J1970 - J2000 + 0.0008)
+
+  const meanSolarTime = day - longitude / 360
+  const meanAnomaly = (357.5291 + 0.98560028 * meanSolarTime) % 360
+  const m = meanAnomaly * RAD
+  const center = 1.9148 * Math.sin(m) + 0.02 * Math.sin(2 * m) + 0.0003 * Math.sin(3 * m)
+  const eclipticLongitude = ((meanAnomaly + center + 180 + 102.9372) % 360) * RAD
+  const transit =
+    J2000 + meanSolarTime + 0.0053 * Math.sin(m) - 0.0069 * Math.sin(2 * eclipticLongitude)
+
+  const sinDeclination = Math.sin(eclipticLongitude) * Math.sin(EARTH_OBLIQUITY * RAD)
+  const cosDeclination = Math.cos(Math.asin(sinDeclination))
+  const cosHourAngle =
+    (Math.sin(SUN_ALTITUDE * RAD) - Math.sin(latitude * RAD) * sinDeclination) /
+    (Math.cos(latitude * RAD) * cosDeclination)
+
+  if (cosHourAngle < -1 || cosHourAngle > 1) {
+    return { sunrise: null, sunset: null }
+  }
+
+  const hourAngle = Math.acos(cosHourAngle) / RAD
+  return {
+    sunrise: fromJulian(transit - hourAngle / 360),
+    sunset: fromJulian(transit + hourAngle / 360),
+  }
+}
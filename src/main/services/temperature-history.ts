@@ -0,0 +1,181 @@
+import { appendFileSync, existsSync, readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { app } from 'electron'
+import Store from 'electron-store'
+import { convertTemperature, parseTemperatureUnit } from '~/shared/temperature-format'
+import type {
+  StoreSchema,
+  TemperatureDailyStats,
+  TemperatureData,
+  TemperatureReading,
+  TemperatureStats,
+} from '~/shared/types'
+import { logAppEvent, logError } from './logger'
+
+const HISTORY_FILE = join(app.getPath('userData'), 'temperature-history.jsonl')
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Quantas amostras descartadas em memória toleramos antes de reescrever o
+ * arquivo. Evita regravar o histórico inteiro a cada leitura nova.
+ */
+const COMPACT_THRESHOLD = 200
+
+type HistoryEntry = {
+  time: number
+  data: TemperatureData
+}
+
+let entries: HistoryEntry[] = []
+let pendingCompaction = 0
+let historyStore: Store<StoreSchema> | null = null
+
+function parseTime(timestamp: string): number {
+  const time = Date.parse(timestamp)
+  return Number.isNaN(time) ? Date.now() : time
+}
+
+function toLocalDate(time: number): string {
+  const date = new Date(time)
+  const month = (date.getMonth() + 1).toString().padStart(2, '0')
+  const day = date.getDate().toString().padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+function compact(): void {
+  try {
+    const content = entries.map((entry) => JSON.stringify(entry)).join('\n')
+    writeFileSync(HISTORY_FILE, content ? `${content}\n` : '')
+    pendingCompaction = 0
+  } catch (error) {
+    logError('Temperature History', 'Failed to compact history file', error)
+  }
+}
+
+/**
+ * Descarta amostras fora da retenção (idade e quantidade). Retorna quantas
+ * foram removidas.
+ */
+function applyRetention(): number {
+  if (!historyStore) return 0
+
+  const { retentionDays, maxSamples } = historyStore.get('temperatureHistory')
+  const cutoff = Date.now() - retentionDays * DAY_MS
+  const before = entries.length
+
+  let start = entries.findIndex((entry) => entry.time >= cutoff)
+  if (start === -1) start = entries.length
+  start = Math.max(start, entries.length - maxSamples)
+  if (start > 0) entries = entries.slice(start)
+
+  return before - entries.length
+}
+
+export function loadTemperatureHistory(store: Store<StoreSchema>): void {
+  historyStore = store
+  entries = []
+
+  if (existsSync(HISTORY_FILE)) {
+    try {
+      for (const line of readFileSync(HISTORY_FILE, 'utf-8').split('\n')) {
+        if (!line.trim()) continue
+        try {
+          const entry = JSON.parse(line) as HistoryEntry
+          if (typeof entry.time === 'number' && entry.data) entries.push(entry)
+        } catch {
+          // Linha corrompida (ex.: app encerrado no meio da escrita): ignora.
+        }
+      }
+    } catch (error) {
+      logError('Temperature History', 'Failed to read history file', error)
+    }
+  }
+
+  entries.sort((a, b) => a.time - b.time)
+  const removed = applyRetention()
+  if (removed > 0) compact()
+
+  logAppEvent('Temperature history loaded', { samples: entries.length, removed })
+}
+
+export function recordTemperatureSample(data: TemperatureData): void {
+  const entry: HistoryEntry = { time: parseTime(data.timestamp), data }
+  const last = entries.at(-1)
+
+  // A subscription reenvia a mesma leitura em reconexões; não duplica.
+  if (last && last.time === entry.time) return
+
+  entries.push(entry)
+  if (last && last.time > entry.time) {
+    entries.sort((a, b) => a.time - b.time)
+  }
+
+  pendingCompaction += applyRetention()
+
+  try {
+    if (pendingCompaction >= COMPACT_THRESHOLD) {
+      compact()
+    } else {
+      appendFileSync(HISTORY_FILE, `${JSON.stringify(entry)}\n`)
+    }
+  } catch (error) {
+    logError('Temperature History', 'Failed to write history sample', error)
+  }
+}
+
+export function getLatestTemperatureSample(): TemperatureData | null {
+  return entries.at(-1)?.data ?? null
+}
+
+/**
+ * Amostras com timestamp entre `from` e `to` (ISO 8601, inclusivo). Sem `to`,
+ * vai até a leitura mais recente.
+ */
+export function getTemperatureHistory(from: string, to?: string): TemperatureData[] {
+  const start = Date.parse(from)
+  const end = to ? Date.parse(to) : Number.POSITIVE_INFINITY
+  if (Number.isNaN(start) || Number.isNaN(end)) return []
+
+  return entries.filter((entry) => entry.time >= start && entry.time <= end).map((e) => e.data)
+}
+
+/**
+ * Cada amostra é convertida da unidade gravada com ela para Celsius, para o
+ * dia não misturar unidades se o provedor ou o mapeamento mudar.
+ */
+function computeStats(readings: TemperatureReading[]): TemperatureStats | null {
+  const values = readings
+    .map((reading) =>
+      reading.value === null
+        ? Number.NaN
+        : convertTemperature(
+            Number.parseFloat(reading.value),
+            parseTemperatureUnit(reading.unit),
+            'C',
+          ),
+    )
+    .filter((value) => Number.isFinite(value))
+
+  if (values.length === 0) return null
+
+  const sum = values.reduce((acc, value) => acc + value, 0)
+  return {
+    min: Math.min(...values),
+    max: Math.max(...values),
+    avg: sum / values.length,
+    count: values.length,
+  }
+}
+
+/**
+ * Mínima, máxima e média de um dia local (`YYYY-MM-DD`); por padrão, hoje.
+ */
+export function getDailyTemperatureStats(date = toLocalDate(Date.now())): TemperatureDailyStats {
+  const samples = entries.filter((entry) => toLocalDate(entry.time) === date).map((e) => e.data)
+
+  return {
+    date,
+    temperatura: computeStats(samples.map((sample) => sample.temperatura)),
+    sensTermica: computeStats(samples.map((sample) => sample.sensTermica)),
+  }
+}
@@ -0,0 +1,23 @@
+import type {
+  TemperatureConnectionState,
+  TemperatureData,
+  TemperatureProviderType,
+} from '~/shared/types'
+
+export type TemperatureDataListener = (data: TemperatureData) => void
+
+export type TemperatureStateListener = (state: TemperatureConnectionState) => void
+
+/**
+ * Fonte de leituras de temperatura. O serviço em `temperature.ts` cuida do
+ * ciclo de vida (start/stop/restart), do log em arquivo e do envio ao renderer;
+ * o provedor só precisa entregar `TemperatureData` normalizado e avisar as
+ * mudanças de estado da conexão.
+ */
+export type TemperatureProvider = {
+  type: TemperatureProviderType
+  /** Identificação curta da origem, usada no `temperature.log`. */
+  source: string
+  start: (onData: TemperatureDataListener, onStateChange: TemperatureStateListener) => void
+  stop: () => void
+}
@@ -1,32 +1,48 @@
 import { appendFileSync, existsSync, mkdirSync } from 'node:fs'
 import { join } from 'node:path'
 import { app } from 'electron'
-import type { TemperatureData } from '~/shared/types'
-import { logAppEvent, logError } from './logger'
-import { getMainWindow } from './window'
+import Store from 'electron-store'
+import { IPC } from '~/shared/ipc'
+import type {
+  StoreSchema,
+  TemperatureConnectionState,
+  TemperatureData,
+  TemperatureProviderType,
+} from '~/shared/types'
+import { createHttpProvider } from './http-provider'
+import { logAppEvent } from './logger'
+import { createQualleProvider } from './qualle-provider'
+import {
+  getLatestTemperatureSample,
+  loadTemperatureHistory,
+  recordTemperatureSample,
+} from './temperature-history'
+import type { TemperatureProvider } from './temperature-provider'
+import { broadcastToOverlays } from './window'
 
 const LOG_DIR = join(app.getPath('userData'), 'logs')
 const TEMPERATURE_LOG_FILE = join(LOG_DIR, 'temperature.log')
-const ESTACAO = 'DCSC-00034'
-const WS_URL = 'wss://monitoramento-dcsc.quallecontrol.com.br/graphql'
-const SUBSCRIPTION_QUERY = `subscription {
-  nowcasting_unique(clients: ["secretaria-de-defesa-civil"], station: ["${ESTACAO}"]) {
-    qualle_meteorologia {
-      codigo
-      timestamp
-      data {
-        temperatura { atual { value unit { value } } }
-        senstermica { atual { value unit { value } } }
-      }
-    }
-  }
-}`
-const RECONNECT_DELAY = 5_000
 
-let ws: WebSocket | null = null
-let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+type TemperatureProviderEntry = {
+  label: string
+  create: (store: Store<StoreSchema>) => TemperatureProvider
+}
+
+export const TEMPERATURE_PROVIDERS: Record<TemperatureProviderType, TemperatureProviderEntry> = {
+  qualle: {
+    label: 'Qualle (Defesa Civil)',
+    create: (store) => createQualleProvider(store.get('qualleProvider')),
+  },
+  http: {
+    label: 'HTTP/JSON (polling)',
+    create: (store) => createHttpProvider(store.get('httpProvider')),
+  },
+}
+
+let provider: TemperatureProvider | null = null
 let lastTemperatureData: TemperatureData | null = null
-let running = false
+let connectionState: TemperatureConnectionState = 'connecting'
+let unsubscribeStore: (() => void)[] = []
 
 function ensureLogDirectory(): void {
   if (!existsSync(LOG_DIR)) {
@@ -40,138 +56,95 @@ function formatValue(value: string | null): string {
   return Number.isNaN(num) ? value : num.toFixed(2)
 }
 
-function logTemperature(data: TemperatureData): void {
+function logTemperature(source: string, data: TemperatureData): void {
   ensureLogDirectory()
   const sensTermica = formatValue(data.sensTermica.value)
   const temperatura = formatValue(data.temperatura.value)
-  const logLine = `[${data.timestamp}] ${ESTACAO} | Sensação Térmica: ${sensTermica}${data.sensTermica.unit} | Temperatura: ${temperatura}${data.temperatura.unit}\n`
+  const logLine = `[${data.timestamp}] ${source} | Sensação Térmica: ${sensTermica}${data.sensTermica.unit} | Temperatura: ${temperatura}${data.temperatura.unit}\n`
   appendFileSync(TEMPERATURE_LOG_FILE, logLine)
 }
 
-type AtualValue = {
-  value: number | null
-  unit: { value: string | null } | null
-}
+function handleData(source: string, data: TemperatureData): void {
+  lastTemperatureData = data
+  logTemperature(source, data)
+  recordTemperatureSample(data)
 
-type QualleMeteorologia = {
-  codigo: string
-  timestamp: string
-  data: {
-    temperatura: { atual: AtualValue | null } | null
-    senstermica: { atual: AtualValue | null } | null
-  } | null
+  broadcastToOverlays(IPC.TEMPERATURE_UPDATE, data)
 }
 
-type NowcastingPayload = {
-  nowcasting_unique: { qualle_meteorologia: QualleMeteorologia | null } | null
-}
+function handleStateChange(state: TemperatureConnectionState): void {
+  if (state === connectionState) return
+  logAppEvent('Temperature connection state changed', { from: connectionState, to: state })
+  connectionState = state
 
-type WsMessage = {
-  id?: string
-  type: 'connection_ack' | 'next' | 'error' | 'complete' | 'ping' | 'pong'
-  payload?: { data?: NowcastingPayload; errors?: unknown }
+  broadcastToOverlays(IPC.TEMPERATURE_STATUS_CHANGE, state)
 }
 
-function handleMessage(payload: NowcastingPayload | undefined): void {
-  const estacao = payload?.nowcasting_unique?.qualle_meteorologia
-  if (!estacao) return
-
-  const temperaturaAtual = estacao.data?.temperatura?.atual
-  const sensTermicaAtual = estacao.data?.senstermica?.atual
-
-  const data: TemperatureData = {
-    sensTermica: {
-      value: sensTermicaAtual?.value != null ? String(sensTermicaAtual.value) : null,
-      unit: sensTermicaAtual?.unit?.value ?? null,
-      label: null,
+function startProvider(store: Store<StoreSchema>): void {
+  const type = store.get('temperatureProvider')
+  const entry = TEMPERATURE_PROVIDERS[type] ?? TEMPERATURE_PROVIDERS.qualle
+  const current = entry.create(store)
+  provider = current
+
+  logAppEvent('Starting temperature provider', { provider: current.type, source: current.source })
+  current.start(
+    (data) => {
+      if (provider !== current) return
+      handleData(current.source, data)
     },
-    temperatura: {
-      value: temperaturaAtual?.value != null ? String(temperaturaAtual.value) : null,
-      unit: temperaturaAtual?.unit?.value ?? null,
-      label: null,
+    (state) => {
+      if (provider !== current) return
+      handleStateChange(state)
     },
-    timestamp: estacao.timestamp ?? new Date().toISOString(),
-  }
-
-  lastTemperatureData = data
-  logTemperature(data)
-
-  const mainWindow = getMainWindow()
-  if (mainWindow && !mainWindow.isDestroyed()) {
-    mainWindow.webContents.send('temperature-update', data)
-  }
+  )
 }
 
-function connect(): void {
-  if (!running) return
-
-  ws = new WebSocket(WS_URL, ['graphql-transport-ws'])
-  let subscribed = false
+function stopProvider(): void {
+  if (!provider) return
+  provider.stop()
+  provider = null
+}
 
-  ws.onopen = () => {
-    ws!.send(JSON.stringify({ type: 'connection_init', payload: {} }))
+export function startTemperatureService(store: Store<StoreSchema>): void {
+  if (provider) {
+    logAppEvent('Temperature service already running')
+    return
   }
 
-  ws.onmessage = (event) => {
-    try {
-      const msg = JSON.parse(event.data as string) as WsMessage
-
-      if (msg.type === 'connection_ack' && !subscribed) {
-        subscribed = true
-        ws!.send(
-          JSON.stringify({
-            id: '1',
-            type: 'subscribe',
-            payload: { query: SUBSCRIPTION_QUERY, variables: {} },
-          }),
-        )
-      } else if (msg.type === 'next' && msg.id === '1') {
-        handleMessage(msg.payload?.data)
-      } else if (msg.type === 'error') {
-        logError('Temperature WS', 'Subscription error', msg.payload)
-      }
-    } catch (error) {
-      logError('Temperature WS', 'Failed to parse message', error)
-    }
-  }
+  // Restaura a última leitura gravada para o widget não ficar vazio até a
+  // primeira mensagem do provedor.
+  loadTemperatureHistory(store)
+  lastTemperatureData = getLatestTemperatureSample()
 
-  ws.onerror = () => {
-    logError('Temperature WS', 'WebSocket connection error')
-  }
+  startProvider(store)
 
-  ws.onclose = () => {
-    ws = null
-    subscribed = false
-    if (running) {
-      reconnectTimer = setTimeout(connect, RECONNECT_DELAY)
-    }
-  }
+  // Trocar o provedor ou a estação (pela bandeja ou editando o config) reinicia
+  // a conexão com as novas configurações.
+  unsubscribeStore = [
+    store.onDidChange('temperatureProvider', () => restartTemperatureService(store)),
+    store.onDidChange('qualleProvider', () => restartTemperatureService(store)),
+    store.onDidChange('httpProvider', () => restartTemperatureService(store)),
+  ]
 }
 
-export function startTemperatureService(): void {
-  if (running) {
-    logAppEvent('Temperature service already running')
-    return
-  }
-
-  running = true
-  logAppEvent('Starting temperature service', { estacao: ESTACAO, endpoint: WS_URL })
-  connect()
+export function restartTemperatureService(store: Store<StoreSchema>): void {
+  if (!provider) return
+  logAppEvent('Restarting temperature service')
+  stopProvider()
+  startProvider(store)
 }
 
 export function stopTemperatureService(): void {
-  running = false
-  if (reconnectTimer) {
-    clearTimeout(reconnectTimer)
-    reconnectTimer = null
-  }
-  if (ws) {
-    ws.close()
-    ws = null
-  }
+  for (const unsubscribe of unsubscribeStore) unsubscribe()
+  unsubscribeStore = []
+  stopProvider()
   logAppEvent('Temperature service stopped')
 }
 
 export function getLastTemperatureData(): TemperatureData | null {
   return lastTemperatureData
 }
+
+export function getTemperatureConnectionState(): TemperatureConnectionState {
+  return connectionState
+}
@@ -0,0 +1,70 @@
+import { readFileSync, writeFileSync } from 'node:fs'
+import { dialog } from 'electron'
+import Store from 'electron-store'
+import { validateSetting } from '~/shared/settings-validation'
+import type { StoreSchema, WidgetTheme } from '~/shared/types'
+import { logAppEvent, logError } from './logger'
+import { updateSetting } from './settings'
+
+const THEME_FILE_FILTERS = [{ name: 'Tema (JSON)', extensions: ['json'] }]
+
+/**
+ * Ativa um tema (embutido ou importado) pelo mesmo caminho das demais
+ * configurações, o que já avisa o renderer para aplicá-lo ao vivo.
+ */
+export function applyTheme(store: Store<StoreSchema>, theme: WidgetTheme): void {
+  updateSetting(store, 'theme', theme)
+}
+
+/**
+ * Lê um tema JSON escolhido pelo usuário, valida, guarda entre os temas
+ * personalizados (substituindo um de mesmo nome) e o ativa.
+ */
+export async function importTheme(store: Store<StoreSchema>): Promise<void> {
+  const { canceled, filePaths } = await dialog.showOpenDialog({
+    title: 'Importar tema',
+    filters: THEME_FILE_FILTERS,
+    properties: ['openFile'],
+  })
+  if (canceled || filePaths.length === 0) return
+
+  const [filePath] = filePaths
+  let theme: WidgetTheme
+  try {
+    theme = JSON.parse(readFileSync(filePath, 'utf-8'))
+  } catch (error) {
+    logError('THEME', `Failed to read theme ${filePath}`, error)
+    dialog.showErrorBox('Importar tema', 'Não foi possível ler o arquivo como JSON.')
+    return
+  }
+
+  const error = validateSetting('theme', theme)
+  if (error) {
+    logError('THEME', `Invalid theme ${filePath}`, error)
+    dialog.showErrorBox('Importar tema', `Tema inválido: ${error}`)
+    return
+  }
+
+  const customThemes = store.get('customThemes').filter((t) => t.name !== theme.name)
+  updateSetting(store, 'customThemes', [...customThemes, theme])
+  applyTheme(store, theme)
+  logAppEvent('Theme imported', { name: theme.name, filePath })
+}
+
+export async function exportTheme(store: Store<StoreSchema>): Promise<void> {
+  const theme = store.get('theme')
+  const { canceled, filePath } = await dialog.showSaveDialog({
+    title: 'Exportar tema',
+    defaultPath: `${theme.name}.json`,
+    filters: THEME_FILE_FILTERS,
+  })
+  if (canceled || !filePath) return
+
+  try {
+    writeFileSync(filePath, `${JSON.stringify(theme, null, 2)}\n`)
+    logAppEvent('Theme exported', { name: theme.name, filePath })
+  } catch (error) {
+    logError('THEME', `Failed to export theme ${filePath}`, error)
+    dialog.showErrorBox('Exportar tema', 'Não foi possível salvar o arquivo.')
+  }
+}
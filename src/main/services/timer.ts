@@ -0,0 +1,192 @@
+import { Notification } from 'electron'
+import Store from 'electron-store'
+import { IPC } from '~/shared/ipc'
+import { formatDuration, getTimerElapsedMs, getTimerRemainingMs } from '~/shared/timer'
+import type { PomodoroPhase, StoreSchema, TimerMode, TimerState } from '~/shared/types'
+import { logAppEvent, logError } from './logger'
+import { refreshTrayMenu } from './tray'
+import { broadcastToOverlays } from './window'
+
+const MINUTE_MS = 60_000
+
+const PHASE_LABELS: Record<PomodoroPhase, string> = {
+  work: 'Trabalho',
+  shortBreak: 'Pausa curta',
+  longBreak: 'Pausa longa',
+}
+
+const IDLE_STATE: TimerState = {
+  mode: 'countdown',
+  status: 'idle',
+  durationMs: null,
+  elapsedMs: 0,
+  startedAt: null,
+  phase: null,
+  completedCycles: 0,
+}
+
+// Fica só em memória: sobrevive a um reload do renderer, não a reiniciar o app.
+let state: TimerState = IDLE_STATE
+let completionTimeout: NodeJS.Timeout | null = null
+
+function notify(title: string, body: string): void {
+  if (!Notification.isSupported()) {
+    logError('TIMER', `Notifications not supported: ${title}`)
+    return
+  }
+  new Notification({ title, body }).show()
+}
+
+/**
+ * Troca o estado, reagenda o fim da contagem e avisa widget e bandeja.
+ */
+function setState(store: Store<StoreSchema>, next: TimerState): void {
+  state = next
+
+  if (completionTimeout) {
+    clearTimeout(completionTimeout)
+    completionTimeout = null
+  }
+  const remaining = getTimerRemainingMs(state, Date.now())
+  if (state.status === 'running' && remaining !== null) {
+    completionTimeout = setTimeout(() => completeTimer(store), remaining)
+  }
+
+  broadcastToOverlays(IPC.TIMER_CHANGE, state)
+  refreshTrayMenu()
+}
+
+function startPhase(
+  store: Store<StoreSchema>,
+  phase: PomodoroPhase,
+  completedCycles: number,
+): TimerState {
+  const { pomodoro } = store.get('timers')
+  const minutes = {
+    work: pomodoro.workMinutes,
+    shortBreak: pomodoro.shortBreakMinutes,
+    longBreak: pomodoro.longBreakMinutes,
+  }[phase]
+
+  return {
+    mode: 'pomodoro',
+    status: 'running',
+    durationMs: minutes * MINUTE_MS,
+    elapsedMs: 0,
+    startedAt: new Date().toISOString(),
+    phase,
+    completedCycles,
+  }
+}
+
+/**
+ * Fim da contagem: a regressiva para e avisa; o Pomodoro avisa e já emenda a
+ * próxima fase (pausa longa a cada `cyclesBeforeLongBreak` trabalhos).
+ */
+function completeTimer(store: Store<StoreSchema>): void {
+  completionTimeout = null
+
+  if (state.mode === 'countdown') {
+    const duration = formatDuration(state.durationMs ?? 0)
+    logAppEvent('Countdown finished', { duration })
+    notify('Tempo esgotado', `Contagem de ${duration} concluída.`)
+    setState(store, IDLE_STATE)
+    return
+  }
+
+  if (state.mode === 'pomodoro' && state.phase) {
+    const { cyclesBeforeLongBreak } = store.get('timers').pomodoro
+    const completedCycles = state.completedCycles + (state.phase === 'work' ? 1 : 0)
+    const nextPhase: PomodoroPhase =
+      state.phase !== 'work'
+        ? 'work'
+        : completedCycles % cyclesBeforeLongBreak === 0
+          ? 'longBreak'
+          : 'shortBreak'
+
+    logAppEvent('Pomodoro phase finished', { phase: state.phase, nextPhase, completedCycles })
+    notify(
+      `${PHASE_LABELS[state.phase]} concluído`,
+      `Próxima fase: ${PHASE_LABELS[nextPhase].toLowerCase()} · ${completedCycles} ciclo(s).`,
+    )
+    setState(store, startPhase(store, nextPhase, completedCycles))
+  }
+}
+
+export function startCountdown(store: Store<StoreSchema>, minutes: number): void {
+  logAppEvent('Timer started', { mode: 'countdown', minutes })
+  setState(store, {
+    ...IDLE_STATE,
+    mode: 'countdown',
+    status: 'running',
+    durationMs: minutes * MINUTE_MS,
+    startedAt: new Date().toISOString(),
+  })
+}
+
+export function startPomodoro(store: Store<StoreSchema>): void {
+  logAppEvent('Timer started', { mode: 'pomodoro' })
+  setState(store, startPhase(store, 'work', 0))
+}
+
+export function startStopwatch(store: Store<StoreSchema>): void {
+  logAppEvent('Timer started', { mode: 'stopwatch' })
+  setState(store, {
+    ...IDLE_STATE,
+    mode: 'stopwatch',
+    status: 'running',
+    startedAt: new Date().toISOString(),
+  })
+}
+
+export function pauseTimer(store: Store<StoreSchema>): void {
+  if (state.status !== 'running') return
+  logAppEvent('Timer paused', { mode: state.mode })
+  setState(store, {
+    ...state,
+    status: 'paused',
+    elapsedMs: getTimerElapsedMs(state, Date.now()),
+    startedAt: null,
+  })
+}
+
+export function resumeTimer(store: Store<StoreSchema>): void {
+  if (state.status !== 'paused') return
+  logAppEvent('Timer resumed', { mode: state.mode })
+  setState(store, { ...state, status: 'running', startedAt: new Date().toISOString() })
+}
+
+export function resetTimer(store: Store<StoreSchema>): void {
+  if (state.status === 'idle') return
+  logAppEvent('Timer reset', { mode: state.mode })
+  setState(store, IDLE_STATE)
+}
+
+export function stopTimer(): void {
+  if (completionTimeout) {
+    clearTimeout(completionTimeout)
+    completionTimeout = null
+  }
+}
+
+export function getTimerState(): TimerState {
+  return state
+}
+
+/**
+ * Texto curto do estado para a bandeja, ex.: "Pomodoro · Trabalho (2 ciclos)".
+ */
+export function describeTimer(): string {
+  if (state.status === 'idle') return 'Parado'
+
+  const labels: Record<TimerMode, string> = {
+    countdown: 'Contagem regressiva',
+    pomodoro: 'Pomodoro',
+    stopwatch: 'Cronômetro',
+  }
+  const phase = state.phase
+    ? ` · ${PHASE_LABELS[state.phase]} (${state.completedCycles} ciclos)`
+    : ''
+  const paused = state.status === 'paused' ? ' — pausado' : ''
+  return `${labels[state.mode]}${phase}${paused}`
+}
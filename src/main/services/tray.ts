@@ -1,11 +1,108 @@
 import { join } from 'node:path'
-import { app, Menu, nativeImage, Tray } from 'electron'
+import { app, Menu, nativeImage, screen, Tray } from 'electron'
 import Store from 'electron-store'
-import type { StoreSchema, TemperatureDisplayType } from '~/shared/types'
+import { BUILT_IN_THEMES } from '~/shared/themes'
+import type {
+  ClockFaceType,
+  ClockFormatSettings,
+  StoreSchema,
+  TemperatureProviderType,
+  TemperatureUnit,
+  WindowAnchorCorner,
+  WorldClockZone,
+} from '~/shared/types'
+import { getLastFiredAlarmId, snoozeAlarm } from './alarms'
 import { logAppEvent, openLogsFolder } from './logger'
-import { getMainWindow } from './window'
+import {
+  applyProfile,
+  deleteProfile,
+  exportSettings,
+  importSettings,
+  saveCurrentAsProfile,
+} from './profiles'
+import { patchSetting, updateSetting } from './settings'
+import { openSettingsWindow } from './settings-window'
+import { TEMPERATURE_PROVIDERS } from './temperature'
+import { applyTheme, exportTheme, importTheme } from './theme'
+import {
+  describeTimer,
+  getTimerState,
+  pauseTimer,
+  resetTimer,
+  resumeTimer,
+  startCountdown,
+  startPomodoro,
+  startStopwatch,
+} from './timer'
+import { getDisplayList, isEditingLayout, setEditLayoutMode } from './window'
+
+const ANCHOR_CORNERS: { corner: WindowAnchorCorner; label: string }[] = [
+  { corner: 'top-left', label: 'Superior esquerdo' },
+  { corner: 'top-center', label: 'Superior central' },
+  { corner: 'top-right', label: 'Superior direito' },
+  { corner: 'bottom-left', label: 'Inferior esquerdo' },
+  { corner: 'bottom-center', label: 'Inferior central' },
+  { corner: 'bottom-right', label: 'Inferior direito' },
+]
+
+const CLOCK_FACES: { face: ClockFaceType; label: string }[] = [
+  { face: 'digital', label: 'Digital' },
+  { face: 'analog', label: 'Analógico' },
+  { face: 'binary', label: 'Binário (BCD)' },
+]
+
+const SPARKLINE_HOURS = [3, 6, 12, 24]
+
+const CLOCK_PRESETS: { pattern: string; label: string }[] = [
+  { pattern: 'HH:mm', label: '24h (14:02)' },
+  { pattern: 'hh:mm:ss A', label: '12h com segundos (02:02:45 PM)' },
+  { pattern: 'h:mm A', label: '12h (2:02 PM)' },
+  { pattern: 'ddd dd/MM HH:mm', label: 'Dia e hora (seg 20/10 14:02)' },
+  { pattern: 'yyyy-MM-dd [S]ww HH:mm', label: 'ISO com semana (2026-10-20 S43 14:02)' },
+]
+
+type ClockFormatFlag = Exclude<keyof ClockFormatSettings, 'pattern' | 'locale'>
+
+const CLOCK_OPTIONS: { key: ClockFormatFlag; label: string }[] = [
+  { key: 'hour12', label: '12 horas (AM/PM)' },
+  { key: 'showSeconds', label: 'Segundos' },
+  { key: 'showWeekday', label: 'Dia da semana' },
+  { key: 'showDate', label: 'Data' },
+  { key: 'showWeekNumber', label: 'Número da semana' },
+]
+
+const WORLD_CLOCK_PRESETS: WorldClockZone[] = [
+  { timeZone: 'UTC', label: 'UTC' },
+  { timeZone: 'America/Sao_Paulo', label: 'SP' },
+  { timeZone: 'America/Manaus', label: 'MAO' },
+  { timeZone: 'America/New_York', label: 'NY' },
+  { timeZone: 'America/Los_Angeles', label: 'LA' },
+  { timeZone: 'Europe/Lisbon', label: 'LIS' },
+  { timeZone: 'Europe/London', label: 'LON' },
+  { timeZone: 'Europe/Berlin', label: 'BER' },
+  { timeZone: 'Asia/Kolkata', label: 'IND' },
+  { timeZone: 'Asia/Tokyo', label: 'TYO' },
+  { timeZone: 'Australia/Sydney', label: 'SYD' },
+]
+
+const TEMPERATURE_UNITS: { unit: TemperatureUnit; label: string }[] = [
+  { unit: 'C', label: 'Celsius (°C)' },
+  { unit: 'F', label: 'Fahrenheit (°F)' },
+  { unit: 'K', label: 'Kelvin (K)' },
+]
+
+const TEMPERATURE_DECIMALS = [0, 1, 2]
+
+const TEMPERATURE_LOCALES: { locale: string; label: string }[] = [
+  { locale: 'pt-BR', label: 'Português (25,3)' },
+  { locale: 'en-US', label: 'English (25.3)' },
+  { locale: 'de-DE', label: 'Deutsch (25,3)' },
+  { locale: 'fr-FR', label: 'Français (25,3)' },
+]
 
 let tray: Tray | null = null
+let trayStore: Store<StoreSchema> | null = null
+let trayResetPosition: (() => void) | null = null
 
 function getIconPath(): string {
   if (app.isPackaged) {
@@ -19,17 +116,56 @@ export function createTray(store: Store<StoreSchema>, onResetPosition: () => voi
 
   tray = new Tray(icon)
   tray.setToolTip('Desktop Widget Clock')
+  trayStore = store
+  trayResetPosition = onResetPosition
 
   updateTrayMenu(store, onResetPosition)
   logAppEvent('Tray created')
 
+  // A lista de monitores do submenu "Posição" acompanha o que está conectado.
+  screen.on('display-added', refreshTrayMenu)
+  screen.on('display-removed', refreshTrayMenu)
+
   return tray
 }
 
+/**
+ * Reconstrói o menu após mudanças feitas fora da bandeja (ex.: janela de
+ * configurações), para que os itens marcados reflitam o store.
+ */
+export function refreshTrayMenu(): void {
+  if (!trayStore || !trayResetPosition) return
+  updateTrayMenu(trayStore, trayResetPosition)
+}
+
 export function updateTrayMenu(store: Store<StoreSchema>, onResetPosition: () => void): void {
   if (!tray) return
 
   const openAtLogin = store.get('openAtLogin')
+  const windowAnchor = store.get('windowAnchor')
+  const overlayInstances = store.get('overlayInstances')
+  const displays = getDisplayList()
+  const qualleProvider = store.get('qualleProvider')
+  const temperatureSparkline = store.get('temperatureSparkline')
+  const temperatureFormat = store.get('temperatureFormat')
+  const clockFormat = store.get('clockFormat')
+  const clockFace = store.get('clockFace')
+  const worldClocks = store.get('worldClocks')
+  const activeTheme = store.get('theme')
+  const appearanceSchedule = store.get('appearanceSchedule')
+  const alarms = store.get('alarms')
+  const timers = store.get('timers')
+  const profiles = store.get('profiles')
+  const activeProfile = store.get('activeProfile')
+  const timerState = getTimerState()
+  const lastFiredAlarm = alarms.find((alarm) => alarm.id === getLastFiredAlarmId())
+  // Fusos adicionados à mão no config também aparecem para poder removê-los.
+  const worldClockOptions = [
+    ...WORLD_CLOCK_PRESETS,
+    ...worldClocks.zones.filter(
+      (zone) => !WORLD_CLOCK_PRESETS.some((preset) => preset.timeZone === zone.timeZone),
+    ),
+  ]
 
   const contextMenu = Menu.buildFromTemplate([
     {
@@ -47,6 +183,256 @@ export function updateTrayMenu(store: Store<StoreSchema>, onResetPosition: () =>
         onResetPosition()
       },
     },
+    {
+      label: 'Editar layout',
+      type: 'checkbox',
+      checked: isEditingLayout(),
+      click: () => {
+        setEditLayoutMode(store, !isEditingLayout())
+        updateTrayMenu(store, onResetPosition)
+      },
+    },
+    {
+      label: 'Posição',
+      type: 'submenu',
+      submenu: [
+        ...ANCHOR_CORNERS.map(({ corner, label }) => ({
+          label,
+          type: 'radio' as const,
+          checked: windowAnchor.freePosition === null && windowAnchor.corner === corner,
+          click: () => {
+            patchSetting(store, 'windowAnchor', { corner, freePosition: null })
+            updateTrayMenu(store, onResetPosition)
+          },
+        })),
+        {
+          label: 'Posição livre (modo de edição)',
+          type: 'radio',
+          checked: windowAnchor.freePosition !== null,
+          enabled: windowAnchor.freePosition !== null,
+        },
+        { type: 'separator' },
+        {
+          label: 'Monitor principal',
+          type: 'radio',
+          checked: windowAnchor.display === 'primary',
+          click: () => {
+            patchSetting(store, 'windowAnchor', { display: 'primary' })
+            updateTrayMenu(store, onResetPosition)
+          },
+        },
+        {
+          label: 'Monitor sob o cursor',
+          type: 'radio',
+          checked: windowAnchor.display === 'cursor',
+          click: () => {
+            patchSetting(store, 'windowAnchor', { display: 'cursor' })
+            updateTrayMenu(store, onResetPosition)
+          },
+        },
+        ...displays.map((display) => ({
+          label: display.label,
+          type: 'radio' as const,
+          checked: windowAnchor.display === display.id,
+          click: () => {
+            patchSetting(store, 'windowAnchor', { display: display.id })
+            updateTrayMenu(store, onResetPosition)
+          },
+        })),
+        { type: 'separator' },
+        {
+          label: 'Não sobrepor a barra de tarefas',
+          type: 'checkbox',
+          checked: windowAnchor.useWorkArea,
+          click: () => {
+            patchSetting(store, 'windowAnchor', { useWorkArea: !windowAnchor.useWorkArea })
+            updateTrayMenu(store, onResetPosition)
+          },
+        },
+      ],
+    },
+    {
+      label: 'Monitores',
+      type: 'submenu',
+      submenu: [
+        {
+          label: 'Um relógio só',
+          type: 'radio',
+          checked: overlayInstances.mode === 'single',
+          click: () => {
+            patchSetting(store, 'overlayInstances', { mode: 'single' })
+            updateTrayMenu(store, onResetPosition)
+          },
+        },
+        {
+          label: 'Um relógio em cada monitor',
+          type: 'radio',
+          checked: overlayInstances.mode === 'all',
+          click: () => {
+            patchSetting(store, 'overlayInstances', { mode: 'all' })
+            updateTrayMenu(store, onResetPosition)
+          },
+        },
+        {
+          label: 'Nos monitores selecionados',
+          type: 'radio',
+          checked: overlayInstances.mode === 'selected',
+          click: () => {
+            patchSetting(store, 'overlayInstances', { mode: 'selected' })
+            updateTrayMenu(store, onResetPosition)
+          },
+        },
+        { type: 'separator' },
+        ...displays.map((display) => {
+          const selected = overlayInstances.displayIds.includes(display.id)
+          return {
+            label: display.label,
+            type: 'checkbox' as const,
+            checked: selected,
+            enabled: overlayInstances.mode === 'selected',
+            click: () => {
+              const displayIds = selected
+                ? overlayInstances.displayIds.filter((id) => id !== display.id)
+                : [...overlayInstances.displayIds, display.id]
+              patchSetting(store, 'overlayInstances', { displayIds })
+              updateTrayMenu(store, onResetPosition)
+            },
+          }
+        }),
+      ],
+    },
+    {
+      label: 'Timer',
+      type: 'submenu',
+      submenu: [
+        { label: describeTimer(), enabled: false },
+        { type: 'separator' },
+        {
+          label: 'Contagem regressiva',
+          type: 'submenu',
+          submenu: timers.countdownPresets.map((minutes) => ({
+            label: `${minutes} min`,
+            click: () => startCountdown(store, minutes),
+          })),
+        },
+        {
+          label: `Pomodoro (${timers.pomodoro.workMinutes}/${timers.pomodoro.shortBreakMinutes} min)`,
+          click: () => startPomodoro(store),
+        },
+        {
+          label: 'Cronômetro',
+          click: () => startStopwatch(store),
+        },
+        { type: 'separator' },
+        timerState.status === 'paused'
+          ? { label: 'Continuar', click: () => resumeTimer(store) }
+          : {
+              label: 'Pausar',
+              enabled: timerState.status === 'running',
+              click: () => pauseTimer(store),
+            },
+        {
+          label: 'Zerar',
+          enabled: timerState.status !== 'idle',
+          click: () => resetTimer(store),
+        },
+      ],
+    },
+    {
+      label: 'Alarmes',
+      type: 'submenu',
+      submenu: [
+        ...alarms.map((alarm) => ({
+          label: `${alarm.time} ${alarm.label}`,
+          type: 'checkbox' as const,
+          checked: alarm.enabled,
+          click: () => {
+            const next = alarms.map((a) => (a.id === alarm.id ? { ...a, enabled: !a.enabled } : a))
+            updateSetting(store, 'alarms', next)
+            updateTrayMenu(store, onResetPosition)
+          },
+        })),
+        ...(alarms.length > 0 ? [{ type: 'separator' as const }] : []),
+        {
+          label: lastFiredAlarm
+            ? `Adiar "${lastFiredAlarm.label}" (${lastFiredAlarm.snoozeMinutes} min)`
+            : 'Adiar último alarme',
+          type: 'normal',
+          enabled: lastFiredAlarm !== undefined,
+          click: () => {
+            if (lastFiredAlarm) snoozeAlarm(store, lastFiredAlarm.id)
+          },
+        },
+        {
+          label: 'Editar alarmes...',
+          type: 'normal',
+          click: () => {
+            openSettingsWindow()
+          },
+        },
+      ],
+    },
+    {
+      label: 'Perfis',
+      type: 'submenu',
+      submenu: [
+        ...profiles.map((profile) => ({
+          label: profile.name,
+          type: 'radio' as const,
+          checked: activeProfile === profile.name,
+          click: () => {
+            applyProfile(store, profile.name)
+            updateTrayMenu(store, onResetPosition)
+          },
+        })),
+        ...(profiles.length > 0 ? [{ type: 'separator' as const }] : []),
+        {
+          label: activeProfile
+            ? `Atualizar "${activeProfile}" com o atual`
+            : 'Atualizar perfil ativo',
+          enabled: activeProfile !== null,
+          click: () => {
+            saveCurrentAsProfile(store, activeProfile)
+            updateTrayMenu(store, onResetPosition)
+          },
+        },
+        {
+          label: 'Salvar atual como novo perfil',
+          click: () => {
+            saveCurrentAsProfile(store, null)
+            updateTrayMenu(store, onResetPosition)
+          },
+        },
+        {
+          label: activeProfile ? `Excluir "${activeProfile}"` : 'Excluir perfil ativo',
+          enabled: activeProfile !== null,
+          click: () => {
+            if (activeProfile) deleteProfile(store, activeProfile)
+            updateTrayMenu(store, onResetPosition)
+          },
+        },
+        { type: 'separator' },
+        {
+          label: 'Importar configurações...',
+          click: () => {
+            importSettings(store).then(() => updateTrayMenu(store, onResetPosition))
+          },
+        },
+        {
+          label: 'Exportar configurações...',
+          click: () => {
+            exportSettings(store)
+          },
+        },
+      ],
+    },
+    {
+      label: 'Configurações...',
+      type: 'normal',
+      click: () => {
+        openSettingsWindow()
+      },
+    },
     {
       label: 'Abrir logs',
       type: 'normal',
@@ -69,17 +455,142 @@ export function updateTrayMenu(store: Store<StoreSchema>, onResetPosition: () =>
     {
       type: 'separator',
     },
+    {
+      label: 'Tema',
+      type: 'submenu',
+      submenu: [
+        ...[...BUILT_IN_THEMES, ...store.get('customThemes')].map((theme) => ({
+          label: theme.name,
+          type: 'radio' as const,
+          checked: activeTheme.name === theme.name,
+          click: () => {
+            applyTheme(store, theme)
+            updateTrayMenu(store, onResetPosition)
+          },
+        })),
+        { type: 'separator' },
+        {
+          label: 'Importar tema...',
+          click: () => {
+            importTheme(store).then(() => updateTrayMenu(store, onResetPosition))
+          },
+        },
+        {
+          label: 'Exportar tema atual...',
+          click: () => {
+            exportTheme(store)
+          },
+        },
+        { type: 'separator' },
+        {
+          label: 'Aparência por horário',
+          type: 'checkbox',
+          checked: appearanceSchedule.enabled,
+          click: () => {
+            patchSetting(store, 'appearanceSchedule', { enabled: !appearanceSchedule.enabled })
+            updateTrayMenu(store, onResetPosition)
+          },
+        },
+      ],
+    },
+    {
+      label: 'Mostrador',
+      type: 'submenu',
+      submenu: CLOCK_FACES.map(({ face, label }) => ({
+        label,
+        type: 'radio' as const,
+        checked: clockFace === face,
+        click: () => {
+          updateSetting(store, 'clockFace', face)
+          updateTrayMenu(store, onResetPosition)
+        },
+      })),
+    },
+    {
+      label: 'Formato do Relógio',
+      type: 'submenu',
+      submenu: [
+        // As opções estruturadas valem quando não há padrão customizado; marcar
+        // uma delas descarta o preset ativo.
+        ...CLOCK_OPTIONS.map(({ key, label }) => ({
+          label,
+          type: 'checkbox' as const,
+          checked: clockFormat.pattern === null && clockFormat[key],
+          click: () => {
+            patchSetting(store, 'clockFormat', { [key]: !clockFormat[key], pattern: null })
+            updateTrayMenu(store, onResetPosition)
+          },
+        })),
+        { type: 'separator' },
+        {
+          label: 'Personalizado pelas opções acima',
+          type: 'radio',
+          checked: clockFormat.pattern === null,
+          click: () => {
+            patchSetting(store, 'clockFormat', { pattern: null })
+            updateTrayMenu(store, onResetPosition)
+          },
+        },
+        ...CLOCK_PRESETS.map(({ pattern, label }) => ({
+          label,
+          type: 'radio' as const,
+          checked: clockFormat.pattern === pattern,
+          click: () => {
+            patchSetting(store, 'clockFormat', { pattern })
+            updateTrayMenu(store, onResetPosition)
+          },
+        })),
+      ],
+    },
+    {
+      label: 'Outros Fusos Horários',
+      type: 'submenu',
+      submenu: [
+        ...worldClockOptions.map((zone) => {
+          const enabled = worldClocks.zones.some((z) => z.timeZone === zone.timeZone)
+          return {
+            label: `${zone.label} (${zone.timeZone})`,
+            type: 'checkbox' as const,
+            checked: enabled,
+            click: () => {
+              const zones = enabled
+                ? worldClocks.zones.filter((z) => z.timeZone !== zone.timeZone)
+                : [...worldClocks.zones, zone]
+              patchSetting(store, 'worldClocks', { zones })
+              updateTrayMenu(store, onResetPosition)
+            },
+          }
+        }),
+        { type: 'separator' },
+        {
+          label: 'Lado a lado',
+          type: 'radio',
+          checked: worldClocks.mode === 'inline',
+          click: () => {
+            patchSetting(store, 'worldClocks', { mode: 'inline' })
+            updateTrayMenu(store, onResetPosition)
+          },
+        },
+        {
+          label: 'Alternar',
+          type: 'radio',
+          checked: worldClocks.mode === 'cycle',
+          click: () => {
+            patchSetting(store, 'worldClocks', { mode: 'cycle' })
+            updateTrayMenu(store, onResetPosition)
+          },
+        },
+      ],
+    },
+    {
+      type: 'separator',
+    },
     {
       label: 'Exibir Temperatura',
       type: 'radio',
       checked: store.get('temperatureDisplay') === 'temperatura',
       click: () => {
-        store.set('temperatureDisplay', 'temperatura' as TemperatureDisplayType)
-        logAppEvent('Temperature display changed', { display: 'temperatura' })
-        const mainWindow = getMainWindow()
-        if (mainWindow && !mainWindow.isDestroyed()) {
-          mainWindow.webContents.send('temperature-display-change', 'temperatura')
-        }
+        updateSetting(store, 'temperatureDisplay', 'temperatura')
         updateTrayMenu(store, onResetPosition)
       },
     },
@@ -88,15 +599,110 @@ export function updateTrayMenu(store: Store<StoreSchema>, onResetPosition: () =>
       type: 'radio',
       checked: store.get('temperatureDisplay') === 'sensTermica',
       click: () => {
-        store.set('temperatureDisplay', 'sensTermica' as TemperatureDisplayType)
-        logAppEvent('Temperature display changed', { display: 'sensTermica' })
-        const mainWindow = getMainWindow()
-        if (mainWindow && !mainWindow.isDestroyed()) {
-          mainWindow.webContents.send('temperature-display-change', 'sensTermica')
-        }
+        updateSetting(store, 'temperatureDisplay', 'sensTermica')
         updateTrayMenu(store, onResetPosition)
       },
     },
+    {
+      label: 'Exibir Gráfico de Temperatura',
+      type: 'checkbox',
+      checked: temperatureSparkline.enabled,
+      click: () => {
+        patchSetting(store, 'temperatureSparkline', { enabled: !temperatureSparkline.enabled })
+        updateTrayMenu(store, onResetPosition)
+      },
+    },
+    {
+      label: 'Período do Gráfico',
+      type: 'submenu',
+      visible: temperatureSparkline.enabled,
+      submenu: SPARKLINE_HOURS.map((hours) => ({
+        label: `${hours} horas`,
+        type: 'radio',
+        checked: temperatureSparkline.hours === hours,
+        click: () => {
+          patchSetting(store, 'temperatureSparkline', { hours })
+          updateTrayMenu(store, onResetPosition)
+        },
+      })),
+    },
+    {
+      label: 'Formato da Temperatura',
+      type: 'submenu',
+      submenu: [
+        ...TEMPERATURE_UNITS.map(({ unit, label }) => ({
+          label,
+          type: 'radio' as const,
+          checked: temperatureFormat.unit === unit,
+          click: () => {
+            patchSetting(store, 'temperatureFormat', { unit })
+            updateTrayMenu(store, onResetPosition)
+          },
+        })),
+        { type: 'separator' },
+        ...TEMPERATURE_DECIMALS.map((decimals) => ({
+          label: decimals === 1 ? '1 casa decimal' : `${decimals} casas decimais`,
+          type: 'radio' as const,
+          checked: temperatureFormat.decimals === decimals,
+          click: () => {
+            patchSetting(store, 'temperatureFormat', { decimals })
+            updateTrayMenu(store, onResetPosition)
+          },
+        })),
+        { type: 'separator' },
+        ...TEMPERATURE_LOCALES.map(({ locale, label }) => ({
+          label,
+          type: 'radio' as const,
+          checked: temperatureFormat.locale === locale,
+          click: () => {
+            patchSetting(store, 'temperatureFormat', { locale })
+            updateTrayMenu(store, onResetPosition)
+          },
+        })),
+        { type: 'separator' },
+        {
+          label: 'Exibir unidade',
+          type: 'checkbox',
+          checked: temperatureFormat.showUnit,
+          click: () => {
+            patchSetting(store, 'temperatureFormat', { showUnit: !temperatureFormat.showUnit })
+            updateTrayMenu(store, onResetPosition)
+          },
+        },
+      ],
+    },
+    {
+      type: 'separator',
+    },
+    {
+      label: 'Fonte de temperatura',
+      type: 'submenu',
+      submenu: Object.entries(TEMPERATURE_PROVIDERS).map(([type, entry]) => ({
+        label: entry.label,
+        type: 'radio',
+        checked: store.get('temperatureProvider') === type,
+        click: () => {
+          store.set('temperatureProvider', type as TemperatureProviderType)
+          logAppEvent('Temperature provider changed', { provider: type })
+          updateTrayMenu(store, onResetPosition)
+        },
+      })),
+    },
+    {
+      label: 'Estação',
+      type: 'submenu',
+      visible: store.get('temperatureProvider') === 'qualle',
+      submenu: qualleProvider.stations.map((station) => ({
+        label: station,
+        type: 'radio',
+        checked: qualleProvider.station === station,
+        click: () => {
+          store.set('qualleProvider', { ...store.get('qualleProvider'), station })
+          logAppEvent('Temperature station changed', { station })
+          updateTrayMenu(store, onResetPosition)
+        },
+      })),
+    },
     {
       type: 'separator',
     },
@@ -0,0 +1,55 @@
+import { BrowserWindow, IpcMainEvent, IpcMainInvokeEvent, ipcMain, WebContents } from 'electron'
+import type {
+  IpcInvokeChannel,
+  IpcInvokeChannels,
+  IpcPushChannel,
+  IpcPushChannels,
+  IpcSendChannel,
+  IpcSendChannels,
+} from '~/shared/ipc'
+
+/**
+ * `ipcMain.handle` amarrado ao contrato de `shared/ipc.ts`: argumentos e
+ * retorno do handler são checados pelo tipo do canal.
+ */
+export function handle<C extends IpcInvokeChannel>(
+  channel: C,
+  handler: (
+    event: IpcMainInvokeEvent,
+    ...args: IpcInvokeChannels[C]['args']
+  ) => IpcInvokeChannels[C]['result'] | Promise<IpcInvokeChannels[C]['result']>,
+): void {
+  ipcMain.handle(channel, (event, ...args) =>
+    handler(event, ...(args as IpcInvokeChannels[C]['args'])),
+  )
+}
+
+/**
+ * `ipcMain.on` para as mensagens sem resposta vindas do renderer.
+ */
+export function listen<C extends IpcSendChannel>(
+  channel: C,
+  listener: (event: IpcMainEvent, ...args: IpcSendChannels[C]) => void,
+): void {
+  ipcMain.on(channel, (event, ...args) => listener(event, ...(args as IpcSendChannels[C])))
+}
+
+/**
+ * Envia uma mensagem do contrato para uma janela.
+ */
+export function send<C extends IpcPushChannel>(
+  webContents: WebContents,
+  channel: C,
+  ...args: IpcPushChannels[C]
+): void {
+  webContents.send(channel, ...args)
+}
+
+/**
+ * Envia a mensagem para todas as janelas abertas (overlays e configurações).
+ */
+export function broadcast<C extends IpcPushChannel>(channel: C, ...args: IpcPushChannels[C]): void {
+  for (const window of BrowserWindow.getAllWindows()) {
+    if (!window.isDestroyed()) send(window.webContents, channel, ...args)
+  }
+}
@@ -1,61 +1,267 @@
 import { join } from 'node:path'
-import { app, BrowserWindow, screen, shell } from 'electron'
+import {
+  app,
+  BrowserWindow,
+  type Display,
+  type Rectangle,
+  screen,
+  shell,
+  type WebContents,
+} from 'electron'
 import Store from 'electron-store'
-import type { StoreSchema, WindowPosition, WindowState } from '~/shared/types'
+import { IPC, type IpcPushChannel, type IpcPushChannels } from '~/shared/ipc'
+import type {
+  DisplayInfo,
+  StoreSchema,
+  WindowAnchorSettings,
+  WindowPosition,
+  WindowSize,
+  WindowState,
+} from '~/shared/types'
 import { logAppEvent, logError, logWindowEvent } from './logger'
+import { send } from './typed-ipc'
 
-export const WINDOW_WIDTH = 320
-export const WINDOW_HEIGHT = 32
+// Tamanho inicial, até o renderer medir e informar o conteúdo.
+export const DEFAULT_WINDOW_WIDTH = 320
+export const DEFAULT_WINDOW_HEIGHT = 32
 
 const OVERLAY_RECOVERY_DELAYS_MS = [0, 250, 1000, 2500]
+// Distância (DIP) a partir da qual a janela "gruda" numa borda ou no centro.
+const SNAP_DISTANCE = 16
+// O Linux só emite 'move' (sem 'moved'), então esperamos o arraste parar.
+const MOVE_SETTLE_MS = 400
+// Instância do modo 'single': segue `windowAnchor`, inclusive o monitor escolhido.
+const MAIN_OVERLAY = 'main'
 
-let mainWindow: BrowserWindow | null = null
+/**
+ * Uma janela de overlay. A chave é `MAIN_OVERLAY` no modo de instância única ou
+ * o `id` do display (como string) quando há um relógio por monitor.
+ */
+type OverlayInstance = {
+  key: string
+  window: BrowserWindow
+  moveSettleTimeout: NodeJS.Timeout | null
+  /** Último tamanho de conteúdo medido pelo renderer (antes dos limites). */
+  contentSize: WindowSize
+}
+
+const overlays = new Map<string, OverlayInstance>()
+let editingLayout = false
+let overlaysHidden = false
 const overlayRecoveryTimeouts = new Set<NodeJS.Timeout>()
 
-function getWindowState(): WindowState | undefined {
-  if (!mainWindow || mainWindow.isDestroyed()) return undefined
-  const [x, y] = mainWindow.getPosition()
-  const [width, height] = mainWindow.getSize()
-  const isOnTop = mainWindow.isAlwaysOnTop()
+function getWindowState(window = getMainWindow()): WindowState | undefined {
+  if (!window || window.isDestroyed()) return undefined
+  const [x, y] = window.getPosition()
+  const [width, height] = window.getSize()
+  const isOnTop = window.isAlwaysOnTop()
   return { x, y, width, height, isOnTop }
 }
 
+/**
+ * Janela "principal": a instância única ou, com vários monitores, a primeira
+ * criada. Serve para o que precisa de uma só janela (ex.: foco na 2ª instância).
+ */
 export function getMainWindow(): BrowserWindow | null {
-  return mainWindow
+  const instance = overlays.get(MAIN_OVERLAY) ?? overlays.values().next().value
+  return instance?.window ?? null
+}
+
+export function areOverlaysVisible(): boolean {
+  return !overlaysHidden
+}
+
+/**
+ * Mostra ou esconde todas as instâncias. O estado vale também para janelas que
+ * ainda não ficaram prontas (`--hide` na inicialização) ou forem criadas depois.
+ */
+export function setOverlaysVisible(visible: boolean): void {
+  overlaysHidden = !visible
+  for (const { key, window } of overlays.values()) {
+    if (window.isDestroyed()) continue
+    // `showInactive` para o overlay não roubar o foco de quem chamou o atalho.
+    if (visible) window.showInactive()
+    else window.hide()
+    logWindowEvent('overlay-visibility', { overlay: key, visible })
+  }
+}
+
+/**
+ * Envia a mensagem para todas as instâncias do overlay.
+ */
+export function broadcastToOverlays<C extends IpcPushChannel>(
+  channel: C,
+  ...args: IpcPushChannels[C]
+): void {
+  for (const { window } of overlays.values()) {
+    if (!window.isDestroyed()) {
+      send(window.webContents, channel, ...args)
+    }
+  }
 }
 
 /**
- * Posição padrão do widget: encostado no canto inferior esquerdo do monitor
- * principal.
+ * Monitor onde o widget deve ser ancorado. Um `id` que não existe mais (monitor
+ * desconectado) cai no principal até ele voltar.
+ */
+function getAnchorDisplay(settings: WindowAnchorSettings): Display {
+  if (settings.display === 'cursor') {
+    return screen.getDisplayNearestPoint(screen.getCursorScreenPoint())
+  }
+  if (typeof settings.display === 'number') {
+    const display = screen.getAllDisplays().find((d) => d.id === settings.display)
+    if (display) return display
+  }
+  return screen.getPrimaryDisplay()
+}
+
+export function getDisplayList(): DisplayInfo[] {
+  const primaryId = screen.getPrimaryDisplay().id
+  return screen.getAllDisplays().map((display, index) => ({
+    id: display.id,
+    label: `${display.label || `Monitor ${index + 1}`} (${display.bounds.width}x${display.bounds.height})`,
+    primary: display.id === primaryId,
+  }))
+}
+
+/**
+ * Âncora de uma instância. A principal usa `windowAnchor`; as demais herdam
+ * dela, aplicam os campos em `overlayInstances.anchors` e ficam sempre presas
+ * ao próprio monitor. A posição livre não é herdada: ela aponta para o
+ * monitor do relógio principal e empilharia todos os relógios lá.
+ */
+function getInstanceAnchor(store: Store<StoreSchema>, key: string): WindowAnchorSettings {
+  const anchor = store.get('windowAnchor')
+  if (key === MAIN_OVERLAY) return anchor
+  return {
+    ...anchor,
+    freePosition: null,
+    ...store.get('overlayInstances').anchors[key],
+    display: Number(key),
+  }
+}
+
+/**
+ * Grava a posição livre da instância. Nas demais instâncias só esse campo vai
+ * para `overlayInstances.anchors`, para que mudanças em `windowAnchor` (canto,
+ * margens...) continuem valendo para elas.
+ */
+function setInstanceFreePosition(
+  store: Store<StoreSchema>,
+  key: string,
+  freePosition: WindowAnchorSettings['freePosition'],
+): void {
+  if (key === MAIN_OVERLAY) {
+    store.set('windowAnchor', { ...store.get('windowAnchor'), freePosition })
+    return
+  }
+  const instances = store.get('overlayInstances')
+  store.set('overlayInstances', {
+    ...instances,
+    anchors: { ...instances.anchors, [key]: { ...instances.anchors[key], freePosition } },
+  })
+}
+
+/**
+ * Retângulo usado como referência da âncora: a tela inteira (`bounds`), com o
+ * widget sobre a barra de tarefas/painel, ou só a `workArea`, que exclui a
+ * barra — inclusive painéis no topo, comuns no Linux.
+ */
+function getAnchorArea(display: Display, settings: WindowAnchorSettings): Rectangle {
+  return settings.useWorkArea ? display.workArea : display.bounds
+}
+
+/**
+ * Converte a posição livre (relativa ao monitor onde foi salva) em coordenadas
+ * absolutas, mantendo a janela dentro da área caso a resolução/escala tenha
+ * mudado. Sem o monitor original, usa o monitor da âncora.
+ */
+function resolveFreePosition(settings: WindowAnchorSettings, size: WindowSize): WindowPosition {
+  const free = settings.freePosition
+  const display =
+    screen.getAllDisplays().find((d) => d.id === free?.displayId) ?? getAnchorDisplay(settings)
+  const area = getAnchorArea(display, settings)
+  const clamp = (value: number, min: number, max: number) =>
+    Math.min(Math.max(value, min), Math.max(min, max))
+
+  return {
+    x: clamp(area.x + (free?.x ?? 0), area.x, area.x + area.width - size.width),
+    y: clamp(area.y + (free?.y ?? 0), area.y, area.y + area.height - size.height),
+  }
+}
+
+/**
+ * Aproxima a posição das bordas, dos cantos e do centro horizontal da área
+ * quando está a menos de `SNAP_DISTANCE`.
+ */
+function snapToArea(position: WindowPosition, area: Rectangle, size: WindowSize): WindowPosition {
+  const snapAxis = (value: number, start: number, size: number, windowSize: number) => {
+    const targets = [start, start + size - windowSize, start + Math.round((size - windowSize) / 2)]
+    const nearest = targets.find((target) => Math.abs(value - target) <= SNAP_DISTANCE)
+    return nearest ?? value
+  }
+
+  return {
+    x: snapAxis(position.x, area.x, area.width, size.width),
+    y: snapAxis(position.y, area.y, area.height, size.height),
+  }
+}
+
+/**
+ * Posição padrão do widget: a posição livre salva no modo de edição ou, sem ela,
+ * o canto configurado na âncora (por padrão, inferior esquerdo do monitor
+ * principal), afastado pelas margens.
  *
  * O Electron posiciona janelas em pixels lógicos (DIP), então derivamos a
- * posição a partir de `bounds` do display principal em vez de usar um valor
- * fixo. Assim a janela fica alinhada à base em qualquer escala do Windows
- * (o valor não precisa ser multiplicado pela escala):
+ * posição a partir da área do display em vez de usar um valor fixo. Assim a
+ * janela fica alinhada à borda em qualquer escala do Windows (o valor não
+ * precisa ser multiplicado pela escala):
  *   - 100%: bounds.height = 2160 -> y = 2160 - 32 = 2128
  *   - 125%: bounds.height = 1728 -> y = 1728 - 32 = 1696 (antigo valor fixo)
+ *
+ * O tamanho entra no cálculo porque os cantos direito/inferior e o centro
+ * dependem da largura/altura atual do conteúdo.
  */
-function getDefaultPosition(): WindowPosition {
-  const { bounds } = screen.getPrimaryDisplay()
-  return {
-    x: bounds.x,
-    y: bounds.y + bounds.height - WINDOW_HEIGHT,
-  }
+function getDefaultPosition(settings: WindowAnchorSettings, size: WindowSize): WindowPosition {
+  if (settings.freePosition) return resolveFreePosition(settings, size)
+
+  const bounds = getAnchorArea(getAnchorDisplay(settings), settings)
+  const [vertical, horizontal] = settings.corner.split('-')
+
+  const x =
+    horizontal === 'left'
+      ? bounds.x + settings.marginX
+      : horizontal === 'right'
+        ? bounds.x + bounds.width - size.width - settings.marginX
+        : bounds.x + Math.round((bounds.width - size.width) / 2)
+  const y =
+    vertical === 'top'
+      ? bounds.y + settings.marginY
+      : bounds.y + bounds.height - size.height - settings.marginY
+
+  return { x, y }
 }
 
 /**
- * Resolve a âncora correta da janela (canto inferior esquerdo do monitor
- * principal) para a escala/layout de telas atuais e mantém o valor salvo em
- * sincronia.
+ * Resolve a âncora correta de uma instância (posição livre, ou canto, monitor e
+ * margens configurados) para a escala/layout de telas atuais e, na instância
+ * principal, mantém o valor salvo em sincronia.
  *
- * Como o widget é um overlay fixo (não arrastável), a posição salva é apenas um
- * cache. Se a escala do Windows mudar — na inicialização ou em tempo real, de
- * 100% a 300% — o valor salvo fica obsoleto, então recalculamos a partir de
- * `bounds` (em DIP) do monitor principal e fazemos a janela "grudar" na base
- * novamente.
+ * Fora do modo de edição o widget é um overlay fixo (não arrastável), então a
+ * posição salva é apenas um cache. Se a escala do Windows mudar — na
+ * inicialização ou em tempo real, de 100% a 300% — ou a configuração da âncora
+ * mudar, o valor salvo fica obsoleto, então recalculamos a partir de `bounds`
+ * ou `workArea` (em DIP) do monitor escolhido e fazemos a janela "grudar" na
+ * borda novamente.
  */
-function resolveAnchoredPosition(store: Store<StoreSchema>): WindowPosition {
-  const anchor = getDefaultPosition()
+function resolveAnchoredPosition(
+  store: Store<StoreSchema>,
+  key: string,
+  size: WindowSize,
+): WindowPosition {
+  const anchor = getDefaultPosition(getInstanceAnchor(store, key), size)
+  if (key !== MAIN_OVERLAY) return anchor
+
   const saved = store.get('windowPosition')
 
   if (!saved || saved.x !== anchor.x || saved.y !== anchor.y) {
@@ -68,13 +274,21 @@ function resolveAnchoredPosition(store: Store<StoreSchema>): WindowPosition {
   return anchor
 }
 
-export function isPositionVisible(position: WindowPosition): boolean {
+/**
+ * Confere a posição contra a mesma área usada na âncora; do contrário, um
+ * widget ancorado sobre a barra de tarefas seria reportado como fora da tela.
+ */
+export function isPositionVisible(
+  position: WindowPosition,
+  settings: WindowAnchorSettings,
+  size: WindowSize,
+): boolean {
   const displays = screen.getAllDisplays()
 
   for (const display of displays) {
-    const { x, y, width, height } = display.workArea
-    const windowRight = position.x + WINDOW_WIDTH
-    const windowBottom = position.y + WINDOW_HEIGHT
+    const { x, y, width, height } = getAnchorArea(display, settings)
+    const windowRight = position.x + size.width
+    const windowBottom = position.y + size.height
 
     const isVisibleHorizontally = position.x < x + width && windowRight > x
     const isVisibleVertically = position.y < y + height && windowBottom > y
@@ -88,141 +302,253 @@ export function isPositionVisible(position: WindowPosition): boolean {
 }
 
 export function resetWindowPosition(store: Store<StoreSchema>, saveToStore = true): void {
-  if (!mainWindow) return
+  for (const instance of overlays.values()) {
+    const { key, window } = instance
+    if (window.isDestroyed()) continue
+
+    // Resetar descarta a posição livre e volta ao canto configurado.
+    const anchor = getInstanceAnchor(store, key)
+    if (anchor.freePosition) {
+      setInstanceFreePosition(store, key, null)
+    }
 
-  const defaultPosition = getDefaultPosition()
-  mainWindow.setPosition(defaultPosition.x, defaultPosition.y)
-  mainWindow.setAlwaysOnTop(true, 'screen-saver')
+    const defaultPosition = getDefaultPosition(
+      { ...anchor, freePosition: null },
+      getTargetSize(store, instance),
+    )
+    window.setPosition(defaultPosition.x, defaultPosition.y)
+    window.setAlwaysOnTop(true, 'screen-saver')
 
-  if (saveToStore) {
-    store.set('windowPosition', defaultPosition)
-  }
+    if (saveToStore && key === MAIN_OVERLAY) {
+      store.set('windowPosition', defaultPosition)
+    }
 
-  const state = getWindowState()
-  logWindowEvent('reset-window-position', { saveToStore }, state)
+    const state = getWindowState(window)
+    logWindowEvent('reset-window-position', { overlay: key, saveToStore }, state)
+  }
 }
 
 /**
- * Força o tamanho da janela para o tamanho original.
- * O Windows 11 pode escalar a janela quando há mudanças de DPI/display.
+ * Tamanho que a instância deve ter: o conteúdo medido pelo renderer, limitado
+ * pelos mínimos/máximos configurados.
  */
-export function forceDesiredSize(): void {
-  if (!mainWindow || mainWindow.isDestroyed()) return
+function getTargetSize(
+  store: Store<StoreSchema>,
+  instance: Pick<OverlayInstance, 'contentSize'>,
+): WindowSize {
+  const { minWidth, maxWidth, minHeight, maxHeight } = store.get('windowSize')
+  const clamp = (value: number, min: number, max: number) =>
+    Math.min(Math.max(Math.ceil(value), min), Math.max(min, max))
+  return {
+    width: clamp(instance.contentSize.width, minWidth, maxWidth),
+    height: clamp(instance.contentSize.height, minHeight, maxHeight),
+  }
+}
 
-  const [currentWidth, currentHeight] = mainWindow.getSize()
+function forceInstanceSize(store: Store<StoreSchema>, instance: OverlayInstance): void {
+  const { key, window } = instance
+  if (window.isDestroyed()) return
 
-  if (currentWidth !== WINDOW_WIDTH || currentHeight !== WINDOW_HEIGHT) {
-    const state = getWindowState()
+  const target = getTargetSize(store, instance)
+  const [currentWidth, currentHeight] = window.getSize()
+
+  if (currentWidth !== target.width || currentHeight !== target.height) {
+    const state = getWindowState(window)
     logWindowEvent(
       'forcing-size',
       {
+        overlay: key,
         from: { width: currentWidth, height: currentHeight },
-        to: { width: WINDOW_WIDTH, height: WINDOW_HEIGHT },
+        to: target,
       },
       state,
     )
-    mainWindow.setSize(WINDOW_WIDTH, WINDOW_HEIGHT)
+    window.setSize(target.width, target.height)
   }
 }
 
 /**
- * Força a janela para a posição e tamanho desejados.
- * No Windows 11, às vezes é necessário chamar setPosition múltiplas vezes
- * porque o sistema operacional tenta "ajudar" movendo a janela.
- * Também restaura o tamanho que pode ser alterado por mudanças de DPI.
+ * Força o tamanho das janelas para o tamanho desejado (conteúdo medido).
+ * O Windows 11 pode escalar a janela quando há mudanças de DPI/display.
  */
-export function forceDesiredPosition(store: Store<StoreSchema>): void {
-  if (!mainWindow || mainWindow.isDestroyed()) return
+export function forceDesiredSize(store: Store<StoreSchema>): void {
+  for (const instance of overlays.values()) {
+    forceInstanceSize(store, instance)
+  }
+}
 
-  const desired = resolveAnchoredPosition(store)
-  const [currentX, currentY] = mainWindow.getPosition()
-  const [currentWidth, currentHeight] = mainWindow.getSize()
-  const state = getWindowState()
+/**
+ * Recebe o tamanho do conteúdo medido pelo renderer de uma instância,
+ * redimensiona a janela dentro dos limites e a reancora, já que os cantos
+ * direito/inferior dependem do tamanho.
+ */
+export function setOverlayContentSize(
+  store: Store<StoreSchema>,
+  sender: WebContents,
+  size: WindowSize,
+): void {
+  const instance = [...overlays.values()].find(
+    ({ window }) => !window.isDestroyed() && window.webContents === sender,
+  )
+  if (!instance || !Number.isFinite(size?.width) || !Number.isFinite(size?.height)) return
 
-  if (currentWidth !== WINDOW_WIDTH || currentHeight !== WINDOW_HEIGHT) {
-    logWindowEvent(
-      'forcing-size',
-      {
-        from: { width: currentWidth, height: currentHeight },
-        to: { width: WINDOW_WIDTH, height: WINDOW_HEIGHT },
-      },
-      state,
-    )
-    mainWindow.setSize(WINDOW_WIDTH, WINDOW_HEIGHT)
+  const previous = getTargetSize(store, instance)
+  instance.contentSize = { width: size.width, height: size.height }
+  const target = getTargetSize(store, instance)
+  if (previous.width === target.width && previous.height === target.height) return
+
+  logWindowEvent(
+    'content-size-changed',
+    { overlay: instance.key, content: size, from: previous, to: target },
+    getWindowState(instance.window),
+  )
+
+  if (editingLayout) {
+    forceInstanceSize(store, instance)
+  } else {
+    forceInstancePosition(store, instance)
   }
+}
+
+function forceInstancePosition(store: Store<StoreSchema>, instance: OverlayInstance): void {
+  const { key, window } = instance
+  if (window.isDestroyed()) return
+
+  const desired = resolveAnchoredPosition(store, key, getTargetSize(store, instance))
+  const [currentX, currentY] = window.getPosition()
+  const state = getWindowState(window)
+
+  forceInstanceSize(store, instance)
 
   if (currentX !== desired.x || currentY !== desired.y) {
-    logWindowEvent('forcing-position', { from: { x: currentX, y: currentY }, to: desired }, state)
+    logWindowEvent(
+      'forcing-position',
+      { overlay: key, from: { x: currentX, y: currentY }, to: desired },
+      state,
+    )
 
-    mainWindow.setPosition(desired.x, desired.y)
-    mainWindow.setAlwaysOnTop(true, 'screen-saver')
+    window.setPosition(desired.x, desired.y)
+    window.setAlwaysOnTop(true, 'screen-saver')
 
     setTimeout(() => {
-      if (!mainWindow || mainWindow.isDestroyed()) return
-      forceDesiredSize()
-      const [x1, y1] = mainWindow.getPosition()
+      if (window.isDestroyed()) return
+      forceInstanceSize(store, instance)
+      const [x1, y1] = window.getPosition()
       if (x1 !== desired.x || y1 !== desired.y) {
-        const retryState = getWindowState()
+        const retryState = getWindowState(window)
         logWindowEvent(
           'forcing-position-retry-1',
-          { current: { x: x1, y: y1 }, desired },
+          { overlay: key, current: { x: x1, y: y1 }, desired },
           retryState,
         )
-        mainWindow.setPosition(desired.x, desired.y)
-        mainWindow.setAlwaysOnTop(true, 'screen-saver')
+        window.setPosition(desired.x, desired.y)
+        window.setAlwaysOnTop(true, 'screen-saver')
       }
     }, 100)
 
     setTimeout(() => {
-      if (!mainWindow || mainWindow.isDestroyed()) return
-      forceDesiredSize()
-      const [x2, y2] = mainWindow.getPosition()
+      if (window.isDestroyed()) return
+      forceInstanceSize(store, instance)
+      const [x2, y2] = window.getPosition()
       if (x2 !== desired.x || y2 !== desired.y) {
-        const retryState = getWindowState()
+        const retryState = getWindowState(window)
         logWindowEvent(
           'forcing-position-retry-2',
-          { current: { x: x2, y: y2 }, desired },
+          { overlay: key, current: { x: x2, y: y2 }, desired },
           retryState,
         )
-        mainWindow.setPosition(desired.x, desired.y)
-        mainWindow.setAlwaysOnTop(true, 'screen-saver')
+        window.setPosition(desired.x, desired.y)
+        window.setAlwaysOnTop(true, 'screen-saver')
       }
     }, 500)
 
     setTimeout(() => {
-      if (!mainWindow || mainWindow.isDestroyed()) return
-      forceDesiredSize()
-      const [x3, y3] = mainWindow.getPosition()
-      const finalState = getWindowState()
+      if (window.isDestroyed()) return
+      forceInstanceSize(store, instance)
+      const [x3, y3] = window.getPosition()
+      const finalState = getWindowState(window)
       if (x3 !== desired.x || y3 !== desired.y) {
         logWindowEvent(
           'forcing-position-retry-3',
-          { current: { x: x3, y: y3 }, desired },
+          { overlay: key, current: { x: x3, y: y3 }, desired },
           finalState,
         )
-        mainWindow.setPosition(desired.x, desired.y)
-        mainWindow.setAlwaysOnTop(true, 'screen-saver')
+        window.setPosition(desired.x, desired.y)
+        window.setAlwaysOnTop(true, 'screen-saver')
       } else {
-        logWindowEvent('position-restored-successfully', undefined, finalState)
+        logWindowEvent('position-restored-successfully', { overlay: key }, finalState)
       }
     }, 1000)
   } else {
-    logWindowEvent('position-already-correct', undefined, state)
+    logWindowEvent('position-already-correct', { overlay: key }, state)
+  }
+}
+
+/**
+ * Força as janelas para a posição e tamanho desejados.
+ * No Windows 11, às vezes é necessário chamar setPosition múltiplas vezes
+ * porque o sistema operacional tenta "ajudar" movendo a janela.
+ * Também restaura o tamanho que pode ser alterado por mudanças de DPI.
+ */
+export function forceDesiredPosition(store: Store<StoreSchema>): void {
+  // Durante a edição quem manda na posição é o usuário.
+  if (editingLayout) return
+
+  for (const instance of overlays.values()) {
+    forceInstancePosition(store, instance)
   }
 }
 
-export function createWindow(store: Store<StoreSchema>): BrowserWindow {
+/**
+ * Instâncias que devem existir: uma só no modo 'single'; senão, uma por monitor
+ * conectado (todos ou só os selecionados). Sem nenhum monitor elegível, cai na
+ * instância única para o relógio nunca sumir.
+ */
+function getDesiredOverlayKeys(store: Store<StoreSchema>): string[] {
+  const { mode, displayIds } = store.get('overlayInstances')
+  if (mode === 'single') return [MAIN_OVERLAY]
+
+  const connected = screen.getAllDisplays().map((display) => display.id)
+  const ids = mode === 'all' ? connected : connected.filter((id) => displayIds.includes(id))
+  return ids.length > 0 ? ids.map(String) : [MAIN_OVERLAY]
+}
+
+/**
+ * Cria as instâncias que faltam e fecha as que não correspondem mais a um
+ * monitor elegível. As novas são criadas antes de fechar as antigas, para o
+ * app não passar por `window-all-closed`.
+ */
+export function syncOverlayWindows(store: Store<StoreSchema>): void {
+  const desired = getDesiredOverlayKeys(store)
+
+  for (const key of desired) {
+    if (!overlays.has(key)) createWindow(store, key)
+  }
+
+  for (const [key, instance] of overlays) {
+    if (desired.includes(key)) continue
+    logWindowEvent('overlay-removed', { overlay: key }, getWindowState(instance.window))
+    if (instance.moveSettleTimeout) clearTimeout(instance.moveSettleTimeout)
+    overlays.delete(key)
+    if (!instance.window.isDestroyed()) instance.window.destroy()
+  }
+}
+
+function createWindow(store: Store<StoreSchema>, key: string): BrowserWindow {
   const savedPosition = store.get('windowPosition')
+  const initialSize = getTargetSize(store, {
+    contentSize: { width: DEFAULT_WINDOW_WIDTH, height: DEFAULT_WINDOW_HEIGHT },
+  })
 
   // Revalida a posição salva contra a base do monitor atual: se a escala do
   // Windows mudou enquanto o app estava fechado, reposiciona automaticamente
   // (sem necessidade de reset manual).
-  const finalPosition = resolveAnchoredPosition(store)
+  const finalPosition = resolveAnchoredPosition(store, key, initialSize)
 
-  mainWindow = new BrowserWindow({
+  const window = new BrowserWindow({
     title: 'Desktop Widget Clock',
-    width: WINDOW_WIDTH,
-    height: WINDOW_HEIGHT,
+    width: initialSize.width,
+    height: initialSize.height,
     x: finalPosition.x,
     y: finalPosition.y,
     show: false,
@@ -231,7 +557,7 @@ export function createWindow(store: Store<StoreSchema>): BrowserWindow {
     alwaysOnTop: true,
     skipTaskbar: true,
     resizable: false,
-    focusable: false,
+    focusable: editingLayout,
     autoHideMenuBar: true,
     paintWhenInitiallyHidden: true,
     backgroundColor: '#00000000',
@@ -242,158 +568,255 @@ export function createWindow(store: Store<StoreSchema>): BrowserWindow {
     },
   })
 
-  mainWindow.setIgnoreMouseEvents(true, { forward: true })
+  if (!editingLayout) {
+    window.setIgnoreMouseEvents(true, { forward: true })
+  }
+
+  const instance: OverlayInstance = {
+    key,
+    window,
+    moveSettleTimeout: null,
+    contentSize: { width: DEFAULT_WINDOW_WIDTH, height: DEFAULT_WINDOW_HEIGHT },
+  }
+  overlays.set(key, instance)
 
-  const state = getWindowState()
+  const state = getWindowState(window)
   logWindowEvent(
     'Window created',
     {
+      overlay: key,
       savedPosition,
-      isPositionValid: isPositionVisible(finalPosition),
+      isPositionValid: isPositionVisible(finalPosition, getInstanceAnchor(store, key), initialSize),
     },
     state,
   )
 
-  setupWindowEvents(store)
+  setupWindowEvents(store, instance)
 
   if (!app.isPackaged && process.env.ELECTRON_RENDERER_URL) {
-    mainWindow.loadURL(process.env.ELECTRON_RENDERER_URL)
+    window.loadURL(process.env.ELECTRON_RENDERER_URL)
   } else {
-    mainWindow.loadFile(join(__dirname, '../renderer/index.html'))
+    window.loadFile(join(__dirname, '../renderer/index.html'))
   }
 
-  return mainWindow
+  return window
 }
 
-function setupWindowEvents(store: Store<StoreSchema>): void {
-  if (!mainWindow) return
+function setupWindowEvents(store: Store<StoreSchema>, instance: OverlayInstance): void {
+  const { key, window } = instance
 
-  mainWindow.on('ready-to-show', () => {
-    if (!mainWindow) return
-    const state = getWindowState()
-    logWindowEvent('ready-to-show', undefined, state)
-    mainWindow.show()
+  window.on('ready-to-show', () => {
+    const state = getWindowState(window)
+    logWindowEvent('ready-to-show', { overlay: key, hidden: overlaysHidden }, state)
+    if (!overlaysHidden) window.show()
 
-    setTimeout(() => forceDesiredPosition(store), 100)
+    setTimeout(() => {
+      if (!editingLayout) forceInstancePosition(store, instance)
+    }, 100)
   })
 
-  mainWindow.on('show', () => {
-    if (!mainWindow) return
-    const state = getWindowState()
-    logWindowEvent('show', { isVisible: mainWindow.isVisible() }, state)
+  window.on('show', () => {
+    const state = getWindowState(window)
+    logWindowEvent('show', { overlay: key, isVisible: window.isVisible() }, state)
   })
 
-  mainWindow.on('hide', () => {
-    if (!mainWindow) return
-    const state = getWindowState()
-    logWindowEvent('hide', undefined, state)
+  window.on('hide', () => {
+    const state = getWindowState(window)
+    logWindowEvent('hide', { overlay: key }, state)
   })
 
-  mainWindow.on('minimize', () => {
-    if (!mainWindow) return
-    const state = getWindowState()
-    logWindowEvent('minimize', undefined, state)
+  window.on('minimize', () => {
+    const state = getWindowState(window)
+    logWindowEvent('minimize', { overlay: key }, state)
   })
 
-  mainWindow.on('restore', () => {
-    if (!mainWindow) return
-    const state = getWindowState()
-    logWindowEvent('restore', undefined, state)
+  window.on('restore', () => {
+    const state = getWindowState(window)
+    logWindowEvent('restore', { overlay: key }, state)
   })
 
-  mainWindow.on('focus', () => {
-    if (!mainWindow) return
-    const state = getWindowState()
-    logWindowEvent('focus', undefined, state)
+  window.on('focus', () => {
+    const state = getWindowState(window)
+    logWindowEvent('focus', { overlay: key }, state)
   })
 
-  mainWindow.on('blur', () => {
-    if (!mainWindow) return
-    const state = getWindowState()
-    logWindowEvent('blur', undefined, state)
+  window.on('blur', () => {
+    const state = getWindowState(window)
+    logWindowEvent('blur', { overlay: key }, state)
   })
 
-  mainWindow.on('moved', () => {
-    if (!mainWindow) return
-    const [x, y] = mainWindow.getPosition()
-    store.set('windowPosition', { x, y })
-    const state = getWindowState()
-    logWindowEvent('moved', undefined, state)
+  window.on('moved', () => {
+    if (key === MAIN_OVERLAY) {
+      const [x, y] = window.getPosition()
+      store.set('windowPosition', { x, y })
+    }
+    const state = getWindowState(window)
+    logWindowEvent('moved', { overlay: key }, state)
   })
 
-  mainWindow.on('resize', () => {
-    if (!mainWindow) return
-    const [width, height] = mainWindow.getSize()
-    const state = getWindowState()
-    logWindowEvent('resize', { expected: { width: WINDOW_WIDTH, height: WINDOW_HEIGHT } }, state)
-    if (width !== WINDOW_WIDTH || height !== WINDOW_HEIGHT) {
+  window.on('move', () => {
+    if (!editingLayout) return
+    if (instance.moveSettleTimeout) clearTimeout(instance.moveSettleTimeout)
+    instance.moveSettleTimeout = setTimeout(() => {
+      instance.moveSettleTimeout = null
+      saveFreePosition(store, instance)
+    }, MOVE_SETTLE_MS)
+  })
+
+  window.on('resize', () => {
+    const [width, height] = window.getSize()
+    const expected = getTargetSize(store, instance)
+    const state = getWindowState(window)
+    logWindowEvent('resize', { overlay: key, expected }, state)
+    if (width !== expected.width || height !== expected.height) {
       setTimeout(() => {
-        if (!mainWindow || mainWindow.isDestroyed()) return
-        const resizeState = getWindowState()
+        if (window.isDestroyed()) return
+        // O alvo pode ter mudado (novo conteúdo medido) durante a espera.
+        const target = getTargetSize(store, instance)
+        const [currentWidth, currentHeight] = window.getSize()
+        if (currentWidth === target.width && currentHeight === target.height) return
+        const resizeState = getWindowState(window)
         logWindowEvent(
           'forcing-size-after-resize',
           {
-            from: { width, height },
-            to: { width: WINDOW_WIDTH, height: WINDOW_HEIGHT },
+            overlay: key,
+            from: { width: currentWidth, height: currentHeight },
+            to: target,
           },
           resizeState,
         )
-        mainWindow.setSize(WINDOW_WIDTH, WINDOW_HEIGHT)
+        window.setSize(target.width, target.height)
       }, 50)
     }
   })
 
-  mainWindow.on('closed', () => {
-    logWindowEvent('closed')
-    mainWindow = null
+  window.on('closed', () => {
+    logWindowEvent('closed', { overlay: key })
+    if (overlays.get(key) === instance) overlays.delete(key)
   })
 
-  mainWindow.on('unresponsive', () => {
-    const state = getWindowState()
-    logWindowEvent('unresponsive', { warning: 'Window became unresponsive!' }, state)
+  window.on('unresponsive', () => {
+    const state = getWindowState(window)
+    logWindowEvent('unresponsive', { overlay: key, warning: 'Window became unresponsive!' }, state)
   })
 
-  mainWindow.on('responsive', () => {
-    const state = getWindowState()
-    logWindowEvent('responsive', undefined, state)
+  window.on('responsive', () => {
+    const state = getWindowState(window)
+    logWindowEvent('responsive', { overlay: key }, state)
   })
 
-  mainWindow.webContents.on('did-finish-load', () => {
-    const state = getWindowState()
-    logWindowEvent('webContents:did-finish-load', undefined, state)
+  window.webContents.on('did-finish-load', () => {
+    const state = getWindowState(window)
+    logWindowEvent('webContents:did-finish-load', { overlay: key }, state)
   })
 
-  mainWindow.webContents.on('did-fail-load', (_event, errorCode, errorDescription) => {
-    logError('WINDOW', 'webContents:did-fail-load', { errorCode, errorDescription })
+  window.webContents.on('did-fail-load', (_event, errorCode, errorDescription) => {
+    logError('WINDOW', 'webContents:did-fail-load', { overlay: key, errorCode, errorDescription })
   })
 
-  mainWindow.webContents.on('render-process-gone', (_event, details) => {
-    logError('WINDOW', 'webContents:render-process-gone', JSON.stringify(details))
+  window.webContents.on('render-process-gone', (_event, details) => {
+    logError('WINDOW', 'webContents:render-process-gone', JSON.stringify({ overlay: key, details }))
   })
 
-  mainWindow.webContents.setWindowOpenHandler((details) => {
-    const state = getWindowState()
-    logWindowEvent('webContents:window-open-handler', { url: details.url }, state)
+  window.webContents.setWindowOpenHandler((details) => {
+    const state = getWindowState(window)
+    logWindowEvent('webContents:window-open-handler', { overlay: key, url: details.url }, state)
     shell.openExternal(details.url)
     return { action: 'deny' }
   })
 }
 
-function runOverlayRecovery(store: Store<StoreSchema>, reason: string): void {
-  if (!mainWindow || mainWindow.isDestroyed()) return
+/**
+ * Aplica o "snap" à posição atual e a salva relativa ao monitor em que a
+ * janela está, para sobreviver a mudanças de arranjo entre monitores.
+ */
+function saveFreePosition(store: Store<StoreSchema>, instance: OverlayInstance): void {
+  const { key, window } = instance
+  if (window.isDestroyed()) return
+
+  const settings = getInstanceAnchor(store, key)
+  const [currentX, currentY] = window.getPosition()
+  const display = screen.getDisplayMatching(window.getBounds())
+  const area = getAnchorArea(display, settings)
+  const snapped = snapToArea({ x: currentX, y: currentY }, area, getTargetSize(store, instance))
+
+  if (snapped.x !== currentX || snapped.y !== currentY) {
+    window.setPosition(snapped.x, snapped.y)
+  }
+
+  const freePosition = { displayId: display.id, x: snapped.x - area.x, y: snapped.y - area.y }
+  setInstanceFreePosition(store, key, freePosition)
+  if (key === MAIN_OVERLAY) store.set('windowPosition', snapped)
+  logWindowEvent(
+    'free-position-saved',
+    { overlay: key, freePosition, snapped },
+    getWindowState(window),
+  )
+}
+
+export function isEditingLayout(): boolean {
+  return editingLayout
+}
 
-  if (mainWindow.isMinimized()) {
-    mainWindow.restore()
+/**
+ * Liga/desliga o modo de edição do layout em todas as instâncias: as janelas
+ * passam a receber o mouse e podem ser arrastadas (a área de arraste é
+ * definida pelo renderer); ao sair, voltam a ser overlays que ignoram cliques,
+ * cada uma na sua posição livre salva.
+ */
+export function setEditLayoutMode(store: Store<StoreSchema>, enabled: boolean): void {
+  if (editingLayout === enabled) return
+
+  editingLayout = enabled
+  cancelPendingOverlayRecoveries()
+
+  for (const instance of overlays.values()) {
+    const { window } = instance
+    if (window.isDestroyed()) continue
+
+    if (enabled) {
+      window.setFocusable(true)
+      window.setIgnoreMouseEvents(false)
+    } else {
+      if (instance.moveSettleTimeout) {
+        clearTimeout(instance.moveSettleTimeout)
+        instance.moveSettleTimeout = null
+        saveFreePosition(store, instance)
+      }
+      window.setIgnoreMouseEvents(true, { forward: true })
+      window.setFocusable(false)
+    }
+  }
+
+  broadcastToOverlays(IPC.EDIT_LAYOUT_CHANGE, enabled)
+  logWindowEvent('edit-layout-mode', { enabled, overlays: [...overlays.keys()] })
+
+  if (!enabled) forceDesiredPosition(store)
+}
+
+function runOverlayRecovery(store: Store<StoreSchema>, reason: string): void {
+  if (overlays.size === 0) return
+  if (editingLayout) {
+    logWindowEvent('overlay-recovery-skipped', { reason, editingLayout })
+    return
   }
 
-  mainWindow.setAlwaysOnTop(true, 'screen-saver')
-  mainWindow.setIgnoreMouseEvents(true, { forward: true })
+  for (const instance of overlays.values()) {
+    const { window } = instance
+    if (window.isDestroyed()) continue
+
+    if (window.isMinimized()) {
+      window.restore()
+    }
 
-  forceDesiredSize()
-  forceDesiredPosition(store)
+    window.setAlwaysOnTop(true, 'screen-saver')
+    window.setIgnoreMouseEvents(true, { forward: true })
+
+    forceInstancePosition(store, instance)
+  }
 
   const state = getWindowState()
-  logWindowEvent('overlay-recovery-pass', { reason }, state)
+  logWindowEvent('overlay-recovery-pass', { reason, overlays: [...overlays.keys()] }, state)
 }
 
 export function scheduleOverlayRecovery(store: Store<StoreSchema>, reason: string): void {
@@ -422,7 +845,7 @@ export function cancelPendingOverlayRecoveries(): void {
 
 export function setupDisplayEvents(store: Store<StoreSchema>): void {
   const handleDisplayEvent = (event: string, details?: Record<string, unknown>) => {
-    if (!mainWindow) return
+    if (overlays.size === 0) return
     const state = getWindowState()
     logAppEvent(event, {
       ...details,
@@ -433,11 +856,33 @@ export function setupDisplayEvents(store: Store<StoreSchema>): void {
     scheduleOverlayRecovery(store, event)
   }
 
-  screen.on('display-added', () => handleDisplayEvent('display-added'))
-  screen.on('display-removed', () => handleDisplayEvent('display-removed'))
+  // Mudar canto, monitor ou margens reancora pelo mesmo caminho da recuperação.
+  store.onDidChange('windowAnchor', (settings) =>
+    handleDisplayEvent('anchor-changed', { anchor: settings }),
+  )
+
+  // Novos limites de tamanho redimensionam e reancoram as janelas.
+  store.onDidChange('windowSize', (settings) =>
+    handleDisplayEvent('window-size-changed', { windowSize: settings }),
+  )
+
+  // Trocar o modo (um/todos/selecionados) abre ou fecha instâncias na hora.
+  store.onDidChange('overlayInstances', (settings) => {
+    syncOverlayWindows(store)
+    handleDisplayEvent('overlay-instances-changed', { instances: settings })
+  })
+
+  screen.on('display-added', (_event, display) => {
+    syncOverlayWindows(store)
+    handleDisplayEvent('display-added', { displayId: display.id })
+  })
+  screen.on('display-removed', (_event, display) => {
+    syncOverlayWindows(store)
+    handleDisplayEvent('display-removed', { displayId: display.id })
+  })
   // Mudanças de escala/DPI do Windows chegam aqui com 'scaleFactor' em
   // changedMetrics. A recuperação recalcula a âncora para a nova escala, então a
-  // janela volta a grudar na base dinamicamente (100%–300%).
+  // janela volta a grudar no canto configurado dinamicamente (100%–300%).
   screen.on('display-metrics-changed', (_event, display, changedMetrics) => {
     handleDisplayEvent('display-metrics-changed', {
       displayId: display.id,
@@ -445,4 +890,4 @@ export function setupDisplayEvents(store: Store<StoreSchema>): void {
       changedMetrics,
     })
   })
-}
\ No newline at end of file
+}
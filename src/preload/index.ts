@@ -1,51 +1,113 @@
 import { contextBridge, IpcRendererEvent, ipcRenderer } from 'electron'
-import type { BluetoothBatteryData, TemperatureData, TemperatureDisplayType } from '~/shared/types'
+import {
+  IPC,
+  type IpcInvokeChannel,
+  type IpcInvokeChannels,
+  type IpcPushChannel,
+  type IpcPushChannels,
+  type IpcSendChannel,
+  type IpcSendChannels,
+} from '~/shared/ipc'
+import type {
+  BluetoothBatteryData,
+  NextAlarm,
+  StoreSchema,
+  TemperatureConnectionState,
+  TemperatureData,
+  TimerState,
+  WidgetTheme,
+  WindowSize,
+} from '~/shared/types'
+
+function invoke<C extends IpcInvokeChannel>(
+  channel: C,
+  ...args: IpcInvokeChannels[C]['args']
+): Promise<IpcInvokeChannels[C]['result']> {
+  return ipcRenderer.invoke(channel, ...args)
+}
+
+function send<C extends IpcSendChannel>(channel: C, ...args: IpcSendChannels[C]): void {
+  ipcRenderer.send(channel, ...args)
+}
+
+/**
+ * Assina um canal de push do main; retorna a função que cancela a assinatura.
+ */
+function on<C extends IpcPushChannel>(
+  channel: C,
+  callback: (...args: IpcPushChannels[C]) => void,
+): () => void {
+  const handler = (_event: IpcRendererEvent, ...args: unknown[]): void => {
+    callback(...(args as IpcPushChannels[C]))
+  }
+  ipcRenderer.on(channel, handler)
+  return () => {
+    ipcRenderer.removeListener(channel, handler)
+  }
+}
+
+type SettingsListener = (key: keyof StoreSchema, value: StoreSchema[keyof StoreSchema]) => void
+
+// Um único listener de IPC repassa as mudanças para cada `onSettingChange`, para
+// não estourar o limite de listeners do `ipcRenderer` com um por configuração.
+const settingsListeners = new Set<SettingsListener>()
+on(IPC.SETTINGS_CHANGE, (key, value) => {
+  for (const listener of settingsListeners) listener(key, value)
+})
+
+function subscribeSettings(listener: SettingsListener): () => void {
+  settingsListeners.add(listener)
+  return () => {
+    settingsListeners.delete(listener)
+  }
+}
 
 const api = {
   ping: (): void => {
-    ipcRenderer.send('ping')
+    send(IPC.PING)
   },
   process: () => ({
     versions: process.versions,
   }),
-  getTemperature: (): Promise<TemperatureData | null> => {
-    return ipcRenderer.invoke('get-temperature')
-  },
-  onTemperatureUpdate: (callback: (data: TemperatureData) => void): (() => void) => {
-    const handler = (_event: IpcRendererEvent, data: TemperatureData): void => {
-      callback(data)
-    }
-    ipcRenderer.on('temperature-update', handler)
-    return () => {
-      ipcRenderer.removeListener('temperature-update', handler)
-    }
-  },
-  getTemperatureDisplay: (): Promise<TemperatureDisplayType> => {
-    return ipcRenderer.invoke('get-temperature-display')
-  },
-  onTemperatureDisplayChange: (
-    callback: (display: TemperatureDisplayType) => void,
-  ): (() => void) => {
-    const handler = (_event: IpcRendererEvent, display: TemperatureDisplayType): void => {
-      callback(display)
-    }
-    ipcRenderer.on('temperature-display-change', handler)
-    return () => {
-      ipcRenderer.removeListener('temperature-display-change', handler)
-    }
-  },
-  getBluetoothBattery: (): Promise<BluetoothBatteryData | null> => {
-    return ipcRenderer.invoke('get-bluetooth-battery')
-  },
-  onBluetoothBatteryUpdate: (callback: (data: BluetoothBatteryData) => void): (() => void) => {
-    const handler = (_event: IpcRendererEvent, data: BluetoothBatteryData): void => {
-      callback(data)
-    }
-    ipcRenderer.on('bluetooth-battery-update', handler)
-    return () => {
-      ipcRenderer.removeListener('bluetooth-battery-update', handler)
-    }
+  getTemperature: () => invoke(IPC.GET_TEMPERATURE),
+  onTemperatureUpdate: (callback: (data: TemperatureData) => void) =>
+    on(IPC.TEMPERATURE_UPDATE, callback),
+  getTemperatureStatus: () => invoke(IPC.GET_TEMPERATURE_STATUS),
+  onTemperatureStatusChange: (callback: (state: TemperatureConnectionState) => void) =>
+    on(IPC.TEMPERATURE_STATUS_CHANGE, callback),
+  getTemperatureHistory: (from: string, to?: string) =>
+    invoke(IPC.GET_TEMPERATURE_HISTORY, from, to),
+  getTemperatureDailyStats: (date?: string) => invoke(IPC.GET_TEMPERATURE_DAILY_STATS, date),
+  getTheme: () => invoke(IPC.GET_THEME),
+  onThemeChange: (callback: (theme: WidgetTheme) => void) => on(IPC.THEME_CHANGE, callback),
+  getNextAlarm: () => invoke(IPC.GET_NEXT_ALARM),
+  onNextAlarmChange: (callback: (alarm: NextAlarm | null) => void) =>
+    on(IPC.NEXT_ALARM_CHANGE, callback),
+  getTimer: () => invoke(IPC.GET_TIMER),
+  onTimerChange: (callback: (state: TimerState) => void) => on(IPC.TIMER_CHANGE, callback),
+  getSettings: () => invoke(IPC.GET_SETTINGS),
+  getSetting: <K extends keyof StoreSchema>(key: K) =>
+    invoke(IPC.GET_SETTING, key) as Promise<StoreSchema[K]>,
+  setSetting: <K extends keyof StoreSchema>(key: K, value: StoreSchema[K]) =>
+    invoke(IPC.SET_SETTING, key, value),
+  onSettingsChange: (callback: SettingsListener) => subscribeSettings(callback),
+  onSettingChange: <K extends keyof StoreSchema>(
+    key: K,
+    callback: (value: StoreSchema[K]) => void,
+  ) =>
+    subscribeSettings((changedKey, value) => {
+      if (changedKey === key) callback(value as StoreSchema[K])
+    }),
+  getDisplays: () => invoke(IPC.GET_DISPLAYS),
+  reportContentSize: (size: WindowSize): void => {
+    send(IPC.CONTENT_SIZE_CHANGE, size)
   },
+  getEditLayout: () => invoke(IPC.GET_EDIT_LAYOUT),
+  onEditLayoutChange: (callback: (enabled: boolean) => void) =>
+    on(IPC.EDIT_LAYOUT_CHANGE, callback),
+  getBluetoothBattery: () => invoke(IPC.GET_BLUETOOTH_BATTERY),
+  onBluetoothBatteryUpdate: (callback: (data: BluetoothBatteryData) => void) =>
+    on(IPC.BLUETOOTH_BATTERY_UPDATE, callback),
 }
 
 declare global {
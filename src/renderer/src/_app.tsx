@@ -1,5 +1,7 @@
-import { DigitalClock } from '@/components/digital-clock'
+import { ClockWidget } from '@/components/clock-widget'
+import { SettingsWindow } from '@/components/settings-window'
 
 export function App() {
-  return <DigitalClock />
+  if (window.location.hash === '#/settings') return <SettingsWindow />
+  return <ClockWidget />
 }
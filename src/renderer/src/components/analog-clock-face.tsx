@@ -0,0 +1,88 @@
+import type { ClockFaceProps } from '@/libs/clock-faces'
+import { formatClock } from '~/shared/clock-format'
+
+const VIEWBOX = 100
+const CENTER = VIEWBOX / 2
+
+function hand(angle: number, length: number) {
+  const radians = ((angle - 90) * Math.PI) / 180
+  return {
+    x2: CENTER + Math.cos(radians) * length,
+    y2: CENTER + Math.sin(radians) * length,
+  }
+}
+
+/**
+ * Mostrador analógico compacto: um quadrado com a altura da linha do relógio,
+ * para caber na janela baixa do overlay.
+ */
+export function AnalogClockFace({ time, clockFormat, theme }: ClockFaceProps) {
+  const size = Math.round((theme.fontSizes.clock * 4) / 3)
+  const seconds = time.getSeconds()
+  const minutes = time.getMinutes() + seconds / 60
+  const hours = (time.getHours() % 12) + minutes / 60
+  const label = formatClock(time, clockFormat)
+    .map((segment) => segment.text)
+    .join('')
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${VIEWBOX} ${VIEWBOX}`}
+      role="img"
+      aria-label={label}
+      style={{
+        color: theme.colors.clock,
+        filter: theme.textShadow ? 'drop-shadow(0 1px 2px rgb(0 0 0 / 0.4))' : undefined,
+      }}
+    >
+      <title>{label}</title>
+      <circle cx={CENTER} cy={CENTER} r={46} fill="none" stroke="currentColor" strokeWidth={6} />
+      {Array.from({ length: 12 }, (_, index) => {
+        const outer = hand(index * 30, 40)
+        const inner = hand(index * 30, index % 3 === 0 ? 30 : 35)
+        return (
+          <line
+            key={index}
+            x1={inner.x2}
+            y1={inner.y2}
+            x2={outer.x2}
+            y2={outer.y2}
+            stroke="currentColor"
+            strokeWidth={index % 3 === 0 ? 6 : 3}
+            strokeLinecap="round"
+          />
+        )
+      })}
+      <line
+        x1={CENTER}
+        y1={CENTER}
+        {...hand(hours * 30, 22)}
+        stroke="currentColor"
+        strokeWidth={9}
+        strokeLinecap="round"
+      />
+      <line
+        x1={CENTER}
+        y1={CENTER}
+        {...hand(minutes * 6, 34)}
+        stroke="currentColor"
+        strokeWidth={6}
+        strokeLinecap="round"
+      />
+      {clockFormat.showSeconds && (
+        <line
+          x1={CENTER}
+          y1={CENTER}
+          {...hand(seconds * 6, 38)}
+          stroke="currentColor"
+          strokeOpacity={0.6}
+          strokeWidth={3}
+          strokeLinecap="round"
+        />
+      )}
+      <circle cx={CENTER} cy={CENTER} r={5} fill="currentColor" />
+    </svg>
+  )
+}
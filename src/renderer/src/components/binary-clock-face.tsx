@@ -0,0 +1,62 @@
+import type { ClockFaceProps } from '@/libs/clock-faces'
+import { formatClock, isHour12 } from '~/shared/clock-format'
+
+const BITS = [8, 4, 2, 1]
+
+/**
+ * Relógio binário em BCD: uma coluna por dígito de HH MM (SS), com os bits
+ * 8-4-2-1 de cima para baixo. Bits que o dígito nunca usa (ex.: 8 e 4 na
+ * dezena da hora) ficam ocultos para manter o desenho enxuto.
+ */
+export function BinaryClockFace({ time, clockFormat, theme }: ClockFaceProps) {
+  const hours = isHour12(clockFormat) ? time.getHours() % 12 || 12 : time.getHours()
+  const parts = [hours, time.getMinutes(), ...(clockFormat.showSeconds ? [time.getSeconds()] : [])]
+  const maxTens = [2, 5, 5]
+  const label = formatClock(time, clockFormat)
+    .map((segment) => segment.text)
+    .join('')
+
+  // Quatro linhas de pontos na altura da linha do relógio.
+  const lineHeight = Math.round((theme.fontSizes.clock * 4) / 3)
+  const gap = Math.max(1, Math.round(lineHeight / 16))
+  const dot = Math.max(3, Math.floor((lineHeight - 3 * gap) / 4))
+
+  return (
+    <div
+      className="flex items-end"
+      style={{ gap: dot }}
+      role="img"
+      aria-label={label}
+      title={label}
+    >
+      {parts.map((value, partIndex) => (
+        <div key={partIndex} className="flex" style={{ gap }}>
+          {[Math.floor(value / 10), value % 10].map((digit, digitIndex) => {
+            const maxDigit = digitIndex === 0 ? maxTens[partIndex] : 9
+            return (
+              <div key={digitIndex} className="flex flex-col" style={{ gap }}>
+                {BITS.map((bit) => (
+                  <span
+                    key={bit}
+                    className="rounded-full"
+                    style={{
+                      width: dot,
+                      height: dot,
+                      backgroundColor: theme.colors.clock,
+                      opacity: digit & bit ? 1 : 0.2,
+                      boxShadow:
+                        digit & bit && theme.textShadow
+                          ? `0 0 ${dot}px ${theme.colors.clock}`
+                          : undefined,
+                      visibility: bit > maxDigit ? 'hidden' : 'visible',
+                    }}
+                  />
+                ))}
+              </div>
+            )
+          })}
+        </div>
+      ))}
+    </div>
+  )
+}
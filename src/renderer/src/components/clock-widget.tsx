@@ -0,0 +1,339 @@
+import { type CSSProperties, useEffect, useRef, useState } from 'react'
+import { TemperatureSparkline } from '@/components/temperature-sparkline'
+import { useSetting } from '@/hooks/use-setting'
+import { api } from '@/libs/api'
+import { CLOCK_FACES } from '@/libs/clock-faces'
+import { formatZoneTime, isHour12 } from '~/shared/clock-format'
+import { formatTemperature } from '~/shared/temperature-format'
+import { DEFAULT_THEME } from '~/shared/themes'
+import { formatDuration, getTimerElapsedMs, getTimerRemainingMs } from '~/shared/timer'
+import type {
+  BluetoothBatteryData,
+  ClockFormatSettings,
+  NextAlarm,
+  TemperatureConnectionState,
+  TemperatureDailyStats,
+  TemperatureData,
+  TemperatureFormatSettings,
+  TemperatureSparklineSettings,
+  ThemeSegment,
+  TimerState,
+  WidgetTheme,
+  WorldClockSettings,
+} from '~/shared/types'
+
+const HOUR_MS = 60 * 60 * 1000
+
+const DEFAULT_CLOCK_FORMAT: ClockFormatSettings = {
+  hour12: false,
+  showSeconds: true,
+  showWeekday: false,
+  showDate: false,
+  showWeekNumber: false,
+  pattern: null,
+  locale: 'pt-BR',
+}
+
+const DEFAULT_WORLD_CLOCKS: WorldClockSettings = {
+  zones: [],
+  mode: 'inline',
+  cycleSeconds: 5,
+}
+
+const DEFAULT_SPARKLINE: TemperatureSparklineSettings = {
+  enabled: false,
+  hours: 6,
+}
+
+const DEFAULT_TEMPERATURE_FORMAT: TemperatureFormatSettings = {
+  unit: 'C',
+  decimals: 1,
+  locale: 'pt-BR',
+  showUnit: false,
+}
+
+const TIMER_ICONS = {
+  countdown: '⏳',
+  stopwatch: '⏱',
+  work: '🍅',
+  break: '☕',
+}
+
+const CONNECTION_INDICATORS: Record<
+  TemperatureConnectionState,
+  { icon: string; title: string } | null
+> = {
+  connecting: { icon: '⋯', title: 'Conectando...' },
+  connected: null,
+  reconnecting: { icon: '↻', title: 'Reconectando...' },
+  offline: { icon: '⊘', title: 'Sem conexão com a fonte de temperatura' },
+}
+
+/**
+ * Horário do próximo alarme no formato de 12/24h do relógio; fora de hoje
+ * ganha o dia da semana na frente.
+ */
+function formatAlarmTime(at: Date, now: Date, clockFormat: ClockFormatSettings): string {
+  return new Intl.DateTimeFormat(clockFormat.locale, {
+    weekday: at.toDateString() === now.toDateString() ? undefined : 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: isHour12(clockFormat),
+  }).format(at)
+}
+
+export function ClockWidget() {
+  const [time, setTime] = useState(new Date())
+  const [clockFormat] = useSetting('clockFormat', DEFAULT_CLOCK_FORMAT)
+  const [clockFace] = useSetting('clockFace', 'digital')
+  const [worldClocks] = useSetting('worldClocks', DEFAULT_WORLD_CLOCKS)
+  const [temperature, setTemperature] = useState<TemperatureData | null>(null)
+  const [displayType] = useSetting('temperatureDisplay', 'temperatura')
+  const [connectionState, setConnectionState] = useState<TemperatureConnectionState>('connecting')
+  const [bluetoothBattery, setBluetoothBattery] = useState<BluetoothBatteryData | null>(null)
+  const [temperatureFormat] = useSetting('temperatureFormat', DEFAULT_TEMPERATURE_FORMAT)
+  const [sparkline] = useSetting('temperatureSparkline', DEFAULT_SPARKLINE)
+  const [history, setHistory] = useState<TemperatureData[]>([])
+  const [dailyStats, setDailyStats] = useState<TemperatureDailyStats | null>(null)
+  const [showRange, setShowRange] = useState(false)
+  const [editingLayout, setEditingLayout] = useState(false)
+  const [theme, setTheme] = useState<WidgetTheme>(DEFAULT_THEME)
+  const [nextAlarm, setNextAlarm] = useState<NextAlarm | null>(null)
+  const [timer, setTimer] = useState<TimerState | null>(null)
+  const contentRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const timer = setInterval(() => setTime(new Date()), 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  useEffect(() => {
+    api.getTemperature().then(setTemperature)
+    api.getTemperatureStatus().then(setConnectionState)
+    api.getBluetoothBattery().then(setBluetoothBattery)
+    api.getEditLayout().then(setEditingLayout)
+    api.getTheme().then(setTheme)
+    api.getNextAlarm().then(setNextAlarm)
+    api.getTimer().then(setTimer)
+
+    const unsubscribeTemp = api.onTemperatureUpdate((data) => {
+      setTemperature(data)
+    })
+
+    const unsubscribeStatus = api.onTemperatureStatusChange((state) => {
+      setConnectionState(state)
+    })
+
+    const unsubscribeBluetooth = api.onBluetoothBatteryUpdate((data) => {
+      setBluetoothBattery(data)
+    })
+
+    const unsubscribeEditLayout = api.onEditLayoutChange((enabled) => {
+      setEditingLayout(enabled)
+    })
+
+    const unsubscribeTheme = api.onThemeChange((settings) => {
+      setTheme(settings)
+    })
+
+    const unsubscribeNextAlarm = api.onNextAlarmChange((alarm) => {
+      setNextAlarm(alarm)
+    })
+
+    const unsubscribeTimer = api.onTimerChange((state) => {
+      setTimer(state)
+    })
+
+    return () => {
+      unsubscribeTemp()
+      unsubscribeStatus()
+      unsubscribeBluetooth()
+      unsubscribeEditLayout()
+      unsubscribeTheme()
+      unsubscribeNextAlarm()
+      unsubscribeTimer()
+    }
+  }, [])
+
+  // Informa ao main o tamanho real do conteúdo, para a janela acompanhar (data,
+  // outros fusos, gráfico...) em vez de cortar num tamanho fixo.
+  useEffect(() => {
+    const content = contentRef.current
+    if (!content) return
+
+    const observer = new ResizeObserver(() => {
+      const { width, height } = content.getBoundingClientRect()
+      api.reportContentSize({ width: Math.ceil(width), height: Math.ceil(height) })
+    })
+    observer.observe(content)
+    return () => observer.disconnect()
+  }, [])
+
+  const sparklineHours = sparkline.enabled ? sparkline.hours : null
+  const lastTimestamp = temperature?.timestamp
+
+  // Recarrega o histórico a cada leitura nova (o main já gravou a amostra);
+  // antes da primeira leitura não há o que buscar.
+  useEffect(() => {
+    if (sparklineHours === null || !lastTimestamp) return
+    const from = new Date(Date.now() - sparklineHours * HOUR_MS).toISOString()
+    api.getTemperatureHistory(from).then(setHistory)
+    api.getTemperatureDailyStats().then(setDailyStats)
+  }, [sparklineHours, lastTimestamp])
+
+  const zoneTimes = worldClocks.zones.flatMap((zone) => {
+    const zoneTime = formatZoneTime(time, zone.timeZone, clockFormat)
+    return zoneTime ? [`${zone.label} ${zoneTime}`] : []
+  })
+  const cycleIndex =
+    Math.floor(time.getTime() / 1000 / Math.max(1, worldClocks.cycleSeconds)) %
+    Math.max(1, zoneTimes.length)
+  const worldClockText =
+    worldClocks.mode === 'cycle' ? (zoneTimes[cycleIndex] ?? '') : zoneTimes.join(' · ')
+
+  const currentTemp =
+    displayType === 'temperatura' ? temperature?.temperatura : temperature?.sensTermica
+
+  const connectionIndicator = CONNECTION_INDICATORS[connectionState]
+
+  const todayRange = dailyStats?.[displayType]
+  const formatCurrent = (value: number | string) =>
+    formatTemperature(value, currentTemp?.unit ?? null, temperatureFormat)
+  // As estatísticas do dia já chegam em Celsius, independente da leitura atual.
+  const formatStat = (value: number) => formatTemperature(value, 'C', temperatureFormat)
+
+  const activeBattery = bluetoothBattery?.activeDevice?.batteryLevel
+
+  // O estado vem do main; o tempo corrido é calculado aqui a cada tique.
+  const timerRemaining = timer ? getTimerRemainingMs(timer, time.getTime()) : null
+  const timerText =
+    timer && timer.status !== 'idle'
+      ? timerRemaining === null
+        ? formatDuration(getTimerElapsedMs(timer, time.getTime()))
+        : formatDuration(timerRemaining, true)
+      : null
+  const timerIcon =
+    timer?.mode === 'pomodoro'
+      ? timer.phase === 'work'
+        ? TIMER_ICONS.work
+        : TIMER_ICONS.break
+      : TIMER_ICONS[timer?.mode ?? 'countdown']
+
+  const alarmText = nextAlarm ? formatAlarmTime(new Date(nextAlarm.at), time, clockFormat) : null
+
+  // Um mostrador desconhecido (store editado à mão) cai no digital.
+  const ClockFace = CLOCK_FACES[clockFace] ?? CLOCK_FACES.digital
+
+  // Cores, fonte e tamanhos vêm do tema ativo; as classes ficam só com o que
+  // não é configurável (peso, números tabulares, animações).
+  const segmentStyle = (segment: ThemeSegment): CSSProperties => ({
+    color: theme.colors[segment],
+    fontSize: `${theme.fontSizes[segment]}px`,
+    lineHeight: 4 / 3,
+    fontFamily: theme.fontFamily,
+    textShadow: theme.textShadow ?? undefined,
+  })
+
+  const worldClockClass =
+    'font-semibold tabular-nums tracking-tighter antialiased whitespace-nowrap'
+  const temperatureClass = 'font-semibold tabular-nums tracking-tighter antialiased'
+  const rangeClass = 'font-semibold tabular-nums tracking-tighter antialiased'
+  const statusClass = 'font-semibold antialiased animate-pulse'
+  const timerClass = 'font-semibold tabular-nums tracking-tighter antialiased'
+  const alarmClass = 'font-semibold tabular-nums tracking-tighter antialiased'
+  const batteryClass = 'font-semibold tabular-nums tracking-tighter antialiased'
+
+  const contentStyle: CSSProperties = theme.background
+    ? {
+        backgroundColor: theme.background.color,
+        borderRadius: `${theme.background.radius}px`,
+        paddingLeft: `${theme.background.paddingX}px`,
+        paddingRight: `${theme.background.paddingX}px`,
+      }
+    : {}
+
+  // No modo de edição a janela inteira vira área de arraste (frameless).
+  const editLayoutClass = editingLayout
+    ? 'cursor-move bg-black/40 outline-2 outline-dashed outline-orange-600 -outline-offset-2 [-webkit-app-region:drag]'
+    : ''
+
+  return (
+    <div
+      className={`flex items-end justify-start w-full h-full transition-opacity duration-1000 ${editLayoutClass}`}
+      style={{ opacity: theme.opacity }}
+    >
+      <div
+        ref={contentRef}
+        className="flex items-end gap-4 pl-4 pr-2 w-max shrink-0"
+        style={contentStyle}
+      >
+        <ClockFace
+          time={time}
+          clockFormat={clockFormat}
+          theme={theme}
+          style={segmentStyle('clock')}
+        />
+        {worldClockText && (
+          <span className={worldClockClass} style={segmentStyle('worldClock')}>
+            {worldClockText}
+          </span>
+        )}
+        {currentTemp?.value && (
+          <span className={temperatureClass} style={segmentStyle('temperature')}>
+            {formatCurrent(currentTemp.value)}
+          </span>
+        )}
+        {sparklineHours !== null && (
+          <div
+            className="flex items-end"
+            style={segmentStyle('range')}
+            onMouseEnter={() => setShowRange(true)}
+            onMouseLeave={() => setShowRange(false)}
+          >
+            {showRange && todayRange ? (
+              <span className={rangeClass}>
+                ↓{formatStat(todayRange.min)} ↑{formatStat(todayRange.max)}
+              </span>
+            ) : (
+              <TemperatureSparkline samples={history} displayType={displayType} />
+            )}
+          </div>
+        )}
+        {connectionIndicator && (
+          <span
+            className={statusClass}
+            style={segmentStyle('status')}
+            title={connectionIndicator.title}
+          >
+            {connectionIndicator.icon}
+          </span>
+        )}
+        {timerText && (
+          <span
+            className={`${timerClass} ${timer?.status === 'paused' ? 'animate-pulse' : ''}`}
+            style={segmentStyle('worldClock')}
+            title={timer?.mode === 'pomodoro' ? `${timer.completedCycles} ciclo(s)` : undefined}
+          >
+            {timerIcon}
+            {timerText}
+            {timer?.mode === 'pomodoro' && ` ·${timer.completedCycles}`}
+          </span>
+        )}
+        {alarmText && (
+          <span className={alarmClass} style={segmentStyle('status')} title={nextAlarm?.label}>
+            ⏰{alarmText}
+          </span>
+        )}
+        {activeBattery !== null && activeBattery !== undefined && (
+          <span
+            className={batteryClass}
+            style={segmentStyle('battery')}
+            title={bluetoothBattery?.activeDevice?.name}
+          >
+            🎧{activeBattery}%
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+import type { ClockFaceProps } from '@/libs/clock-faces'
+import { formatClock } from '~/shared/clock-format'
+
+const digitClass = 'font-semibold tabular-nums tracking-wider antialiased'
+const colonClass = `${digitClass} animate-blink`
+
+export function DigitalClockFace({ time, clockFormat, style }: ClockFaceProps) {
+  const clockSegments = formatClock(time, clockFormat)
+
+  return (
+    <div className="whitespace-pre" style={style}>
+      {clockSegments.map((segment, index) => (
+        <span key={index} className={segment.kind === 'separator' ? colonClass : digitClass}>
+          {segment.text}
+        </span>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react'
+import { api } from '@/libs/api'
+import type { SettingField as SettingFieldType } from '@/libs/settings-sections'
+import type { DisplayInfo } from '~/shared/types'
+
+type SettingFieldProps = {
+  field: SettingFieldType
+  value: unknown
+  onCommit: (value: unknown) => void
+}
+
+const inputClass =
+  'w-full rounded border border-neutral-700 bg-neutral-800 px-2 py-1 text-sm text-neutral-100 focus:border-orange-600 focus:outline-none'
+
+/**
+ * Converte o texto digitado no tipo do campo. Retorna `undefined` quando não
+ * dá para interpretar (ex.: JSON malformado), para o chamador exibir o erro.
+ */
+function parseDraft(field: SettingFieldType, draft: string): unknown {
+  switch (field.type) {
+    case 'number':
+      return draft.trim() === '' ? undefined : Number(draft)
+    case 'text':
+      return field.nullable && draft.trim() === '' ? null : draft
+    case 'list':
+      return draft
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean)
+    case 'json':
+      try {
+        return JSON.parse(draft)
+      } catch {
+        return undefined
+      }
+    default:
+      return draft
+  }
+}
+
+function formatDraft(field: SettingFieldType, value: unknown): string {
+  if (field.type === 'list') return Array.isArray(value) ? value.join('\n') : ''
+  if (field.type === 'json') return JSON.stringify(value, null, 2)
+  return value === null || value === undefined ? '' : String(value)
+}
+
+/**
+ * Campo de texto/número/lista/JSON: edita um rascunho local e só grava no
+ * `blur`, para não reiniciar provedores a cada tecla.
+ */
+function DraftInput({ field, value, onCommit }: SettingFieldProps) {
+  const initial = formatDraft(field, value)
+  const [draft, setDraft] = useState(initial)
+  const [parseError, setParseError] = useState(false)
+
+  const commit = () => {
+    if (draft === initial) return
+    const parsed = parseDraft(field, draft)
+    setParseError(parsed === undefined)
+    if (parsed !== undefined) onCommit(parsed)
+  }
+
+  if (field.type === 'list' || field.type === 'json') {
+    return (
+      <>
+        <textarea
+          className={`${inputClass} min-h-20 font-mono`}
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          onBlur={commit}
+        />
+        {parseError && <p className="text-xs text-red-400">JSON inválido</p>}
+      </>
+    )
+  }
+
+  return (
+    <input
+      className={inputClass}
+      type={field.type === 'number' ? 'number' : 'text'}
+      min={field.type === 'number' ? field.min : undefined}
+      max={field.type === 'number' ? field.max : undefined}
+      step={field.type === 'number' ? field.step : undefined}
+      value={draft}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={(event) => {
+        if (event.key === 'Enter') commit()
+      }}
+    />
+  )
+}
+
+/**
+ * Lista os monitores conectados; o `id` numérico é o que vai para o store.
+ */
+function DisplaySelect({ value, onCommit }: Omit<SettingFieldProps, 'field'>) {
+  const [displays, setDisplays] = useState<DisplayInfo[]>([])
+
+  useEffect(() => {
+    api.getDisplays().then(setDisplays)
+  }, [])
+
+  const isMissing = typeof value === 'number' && !displays.some((d) => d.id === value)
+
+  return (
+    <select
+      className={inputClass}
+      value={String(value)}
+      onChange={(event) => {
+        const next = event.target.value
+        onCommit(/^\d+$/.test(next) ? Number(next) : next)
+      }}
+    >
+      <option value="primary">Principal</option>
+      <option value="cursor">Sob o cursor</option>
+      {displays.map((display) => (
+        <option key={display.id} value={String(display.id)}>
+          {display.label}
+          {display.primary ? ' — principal' : ''}
+        </option>
+      ))}
+      {isMissing && <option value={String(value)}>Monitor {String(value)} (desconectado)</option>}
+    </select>
+  )
+}
+
+export function SettingField({ field, value, onCommit }: SettingFieldProps) {
+  if (field.type === 'boolean') {
+    return (
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          className="accent-orange-600"
+          checked={Boolean(value)}
+          onChange={(event) => onCommit(event.target.checked)}
+        />
+        {field.label}
+      </label>
+    )
+  }
+
+  return (
+    <label className="flex flex-col gap-1 text-sm">
+      <span className="text-neutral-300">{field.label}</span>
+      {field.type === 'display' ? (
+        <DisplaySelect value={value} onCommit={onCommit} />
+      ) : field.type === 'select' ? (
+        <select
+          className={inputClass}
+          value={String(value)}
+          onChange={(event) => onCommit(event.target.value)}
+        >
+          {field.options.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      ) : (
+        // A `key` recria o rascunho quando o valor muda por fora (bandeja).
+        <DraftInput key={JSON.stringify(value)} field={field} value={value} onCommit={onCommit} />
+      )}
+      {field.hint && <span className="text-xs text-neutral-500">{field.hint}</span>}
+    </label>
+  )
+}
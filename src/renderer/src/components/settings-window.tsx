@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react'
+import { SettingField } from '@/components/setting-field'
+import { api } from '@/libs/api'
+import { getAtPath, SETTINGS_SECTIONS, setAtPath } from '@/libs/settings-sections'
+import { validateSetting } from '~/shared/settings-validation'
+import type { StoreSchema } from '~/shared/types'
+
+export function SettingsWindow() {
+  const [settings, setSettings] = useState<StoreSchema | null>(null)
+  const [errors, setErrors] = useState<Partial<Record<keyof StoreSchema, string>>>({})
+
+  useEffect(() => {
+    api.getSettings().then(setSettings)
+
+    // Mantém a janela em dia com mudanças feitas pela bandeja.
+    const unsubscribe = api.onSettingsChange((key, value) => {
+      setSettings((current) => (current ? { ...current, [key]: value } : current))
+      setErrors((current) => ({ ...current, [key]: undefined }))
+    })
+
+    return () => unsubscribe()
+  }, [])
+
+  const commit = async (key: keyof StoreSchema, path: string[], fieldValue: unknown) => {
+    if (!settings) return
+    const value = setAtPath(settings[key], path, fieldValue)
+
+    // Valida localmente para dar retorno imediato; o main valida de novo.
+    const error = validateSetting(key, value)
+    if (error) {
+      setErrors((current) => ({ ...current, [key]: error }))
+      return
+    }
+
+    const result = await api.setSetting(key, value as never)
+    if (!result.ok) setErrors((current) => ({ ...current, [key]: result.error }))
+  }
+
+  if (!settings) {
+    return <div className="h-screen bg-neutral-900 p-6 text-neutral-400">Carregando...</div>
+  }
+
+  return (
+    <div className="h-screen overflow-y-auto bg-neutral-900 p-6 text-neutral-100 select-text">
+      <h1 className="mb-6 text-lg font-semibold">Configurações</h1>
+      <div className="flex flex-col gap-6">
+        {SETTINGS_SECTIONS.map((section) => (
+          <section key={section.key} className="flex flex-col gap-3">
+            <h2 className="border-b border-neutral-700 pb-1 text-sm font-semibold text-orange-500">
+              {section.title}
+            </h2>
+            {section.fields.map((field) => (
+              <SettingField
+                key={field.path.join('.') || section.key}
+                field={field}
+                value={getAtPath(settings[section.key], field.path)}
+                onCommit={(value) => commit(section.key, field.path, value)}
+              />
+            ))}
+            {errors[section.key] && <p className="text-xs text-red-400">{errors[section.key]}</p>}
+          </section>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,52 @@
+import type { TemperatureData, TemperatureDisplayType } from '~/shared/types'
+
+type TemperatureSparklineProps = {
+  samples: TemperatureData[]
+  displayType: TemperatureDisplayType
+  width?: number
+  height?: number
+}
+
+export function TemperatureSparkline({
+  samples,
+  displayType,
+  width = 48,
+  height = 16,
+}: TemperatureSparklineProps) {
+  const points = samples
+    .map((sample) => ({
+      time: Date.parse(sample.timestamp),
+      value: Number.parseFloat(sample[displayType].value ?? ''),
+    }))
+    .filter((point) => Number.isFinite(point.time) && Number.isFinite(point.value))
+
+  if (points.length < 2) return null
+
+  const firstTime = points[0].time
+  const timeSpan = points[points.length - 1].time - firstTime || 1
+  const values = points.map((point) => point.value)
+  const min = Math.min(...values)
+  const valueSpan = Math.max(...values) - min || 1
+
+  // 1px de respiro em cima e embaixo para o traço não ser cortado.
+  const path = points
+    .map((point) => {
+      const x = ((point.time - firstTime) / timeSpan) * width
+      const y = height - 1 - ((point.value - min) / valueSpan) * (height - 2)
+      return `${x.toFixed(1)},${y.toFixed(1)}`
+    })
+    .join(' ')
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="mb-1.5">
+      <polyline
+        points={path}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+    </svg>
+  )
+}
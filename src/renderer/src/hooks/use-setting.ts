@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react'
+import { api } from '@/libs/api'
+import type { SettingUpdateResult, StoreSchema } from '~/shared/types'
+
+/**
+ * Valor ao vivo de uma chave do store. Começa no `fallback` até a primeira
+ * leitura e acompanha qualquer mudança feita pela bandeja, pela janela de
+ * configurações ou pelo próprio main.
+ */
+export function useSetting<K extends keyof StoreSchema>(
+  key: K,
+  fallback: StoreSchema[K],
+): [StoreSchema[K], (value: StoreSchema[K]) => Promise<SettingUpdateResult>] {
+  const [value, setValue] = useState(fallback)
+
+  useEffect(() => {
+    let active = true
+    // Uma mudança que chegue antes da resposta é mais nova que ela.
+    let received = false
+    api.getSetting(key).then((current) => {
+      if (active && !received) setValue(current)
+    })
+
+    const unsubscribe = api.onSettingChange(key, (next) => {
+      received = true
+      setValue(next)
+    })
+
+    return () => {
+      active = false
+      unsubscribe()
+    }
+  }, [key])
+
+  const update = useCallback((next: StoreSchema[K]) => api.setSetting(key, next), [key])
+
+  return [value, update]
+}
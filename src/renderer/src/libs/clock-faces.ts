@@ -0,0 +1,23 @@
+import type { ComponentType, CSSProperties } from 'react'
+import { AnalogClockFace } from '@/components/analog-clock-face'
+import { BinaryClockFace } from '@/components/binary-clock-face'
+import { DigitalClockFace } from '@/components/digital-clock-face'
+import type { ClockFaceType, ClockFormatSettings, WidgetTheme } from '~/shared/types'
+
+export type ClockFaceProps = {
+  time: Date
+  clockFormat: ClockFormatSettings
+  theme: WidgetTheme
+  /** Estilo do segmento `clock` do tema (cor, fonte, tamanho, sombra). */
+  style: CSSProperties
+}
+
+/**
+ * Mostradores disponíveis. Todos recebem as mesmas props e ocupam só a parte do
+ * relógio; temperatura, bateria e demais segmentos ficam no `ClockWidget`.
+ */
+export const CLOCK_FACES: Record<ClockFaceType, ComponentType<ClockFaceProps>> = {
+  digital: DigitalClockFace,
+  analog: AnalogClockFace,
+  binary: BinaryClockFace,
+}
@@ -0,0 +1,467 @@
+import type { StoreSchema } from '~/shared/types'
+
+type SelectOption = { value: string; label: string }
+
+type BaseField = {
+  /** Caminho dentro do valor da chave; vazio edita o valor inteiro. */
+  path: string[]
+  label: string
+  hint?: string
+}
+
+export type SettingField =
+  | (BaseField & { type: 'boolean' })
+  | (BaseField & { type: 'number'; min?: number; max?: number; step?: number })
+  | (BaseField & { type: 'text'; nullable?: boolean })
+  | (BaseField & { type: 'select'; options: SelectOption[] })
+  | (BaseField & { type: 'list' })
+  | (BaseField & { type: 'json' })
+  | (BaseField & { type: 'display' })
+
+export type SettingSection = {
+  key: keyof StoreSchema
+  title: string
+  fields: SettingField[]
+}
+
+const LOCALE_OPTIONS: SelectOption[] = [
+  { value: 'pt-BR', label: 'Português (Brasil)' },
+  { value: 'pt-PT', label: 'Português (Portugal)' },
+  { value: 'en-US', label: 'English (US)' },
+  { value: 'en-GB', label: 'English (UK)' },
+  { value: 'es-ES', label: 'Español' },
+  { value: 'de-DE', label: 'Deutsch' },
+  { value: 'fr-FR', label: 'Français' },
+]
+
+export const SETTINGS_SECTIONS: SettingSection[] = [
+  {
+    key: 'openAtLogin',
+    title: 'Inicialização',
+    fields: [{ path: [], label: 'Iniciar com o sistema', type: 'boolean' }],
+  },
+  {
+    key: 'windowAnchor',
+    title: 'Posição',
+    fields: [
+      {
+        path: ['corner'],
+        label: 'Canto',
+        type: 'select',
+        options: [
+          { value: 'top-left', label: 'Superior esquerdo' },
+          { value: 'top-center', label: 'Superior central' },
+          { value: 'top-right', label: 'Superior direito' },
+          { value: 'bottom-left', label: 'Inferior esquerdo' },
+          { value: 'bottom-center', label: 'Inferior central' },
+          { value: 'bottom-right', label: 'Inferior direito' },
+        ],
+      },
+      { path: ['display'], label: 'Monitor', type: 'display' },
+      {
+        path: ['marginX'],
+        label: 'Margem horizontal (px)',
+        type: 'number',
+        min: 0,
+        max: 2000,
+        hint: 'Ignorada nos cantos centrais.',
+      },
+      { path: ['marginY'], label: 'Margem vertical (px)', type: 'number', min: 0, max: 2000 },
+      {
+        path: ['useWorkArea'],
+        label: 'Ancorar na área útil (não sobrepor a barra de tarefas)',
+        type: 'boolean',
+      },
+      {
+        path: ['freePosition'],
+        label: 'Posição livre',
+        type: 'json',
+        hint: 'Definida pelo "Editar layout" da bandeja; null volta ao canto acima.',
+      },
+    ],
+  },
+  {
+    key: 'windowSize',
+    title: 'Tamanho da janela',
+    fields: [
+      { path: ['minWidth'], label: 'Largura mínima (px)', type: 'number', min: 16, max: 4000 },
+      { path: ['maxWidth'], label: 'Largura máxima (px)', type: 'number', min: 16, max: 4000 },
+      { path: ['minHeight'], label: 'Altura mínima (px)', type: 'number', min: 16, max: 1000 },
+      {
+        path: ['maxHeight'],
+        label: 'Altura máxima (px)',
+        type: 'number',
+        min: 16,
+        max: 1000,
+        hint: 'A janela acompanha o conteúdo dentro desses limites.',
+      },
+    ],
+  },
+  {
+    key: 'overlayInstances',
+    title: 'Monitores',
+    fields: [
+      {
+        path: ['mode'],
+        label: 'Relógios',
+        type: 'select',
+        options: [
+          { value: 'single', label: 'Um relógio só' },
+          { value: 'all', label: 'Um em cada monitor' },
+          { value: 'selected', label: 'Nos monitores selecionados' },
+        ],
+      },
+      {
+        path: ['displayIds'],
+        label: 'Monitores selecionados',
+        type: 'json',
+        hint: 'Ids dos monitores, ex.: [2528732444]. Também pela bandeja em "Monitores".',
+      },
+      {
+        path: ['anchors'],
+        label: 'Âncora por monitor',
+        type: 'json',
+        hint: 'Por id do monitor, só os campos que mudam; o resto vem da posição acima. Preenchido pelo "Editar layout".',
+      },
+    ],
+  },
+  {
+    key: 'clockFormat',
+    title: 'Relógio',
+    fields: [
+      { path: ['hour12'], label: '12 horas (AM/PM)', type: 'boolean' },
+      { path: ['showSeconds'], label: 'Segundos', type: 'boolean' },
+      { path: ['showWeekday'], label: 'Dia da semana', type: 'boolean' },
+      { path: ['showDate'], label: 'Data', type: 'boolean' },
+      { path: ['showWeekNumber'], label: 'Número da semana', type: 'boolean' },
+      {
+        path: ['pattern'],
+        label: 'Padrão personalizado',
+        type: 'text',
+        nullable: true,
+        hint: 'Tokens: yyyy MM MMM dd ddd dddd HH hh mm ss A ww, [texto literal]. Vazio usa as opções acima.',
+      },
+      { path: ['locale'], label: 'Idioma', type: 'select', options: LOCALE_OPTIONS },
+    ],
+  },
+  {
+    key: 'clockFace',
+    title: 'Mostrador',
+    fields: [
+      {
+        path: [],
+        label: 'Estilo',
+        type: 'select',
+        options: [
+          { value: 'digital', label: 'Digital' },
+          { value: 'analog', label: 'Analógico' },
+          { value: 'binary', label: 'Binário (BCD)' },
+        ],
+        hint: 'Temperatura, bateria e demais itens aparecem em qualquer mostrador.',
+      },
+    ],
+  },
+  {
+    key: 'worldClocks',
+    title: 'Outros fusos horários',
+    fields: [
+      {
+        path: ['zones'],
+        label: 'Fusos',
+        type: 'json',
+        hint: 'Lista de { "timeZone": "Europe/Lisbon", "label": "LIS" }',
+      },
+      {
+        path: ['mode'],
+        label: 'Exibição',
+        type: 'select',
+        options: [
+          { value: 'inline', label: 'Lado a lado' },
+          { value: 'cycle', label: 'Alternar' },
+        ],
+      },
+      { path: ['cycleSeconds'], label: 'Alternar a cada (s)', type: 'number', min: 1, max: 3600 },
+    ],
+  },
+  {
+    key: 'theme',
+    title: 'Tema',
+    fields: [
+      { path: ['name'], label: 'Nome', type: 'text' },
+      { path: ['fontFamily'], label: 'Fonte', type: 'text' },
+      {
+        path: ['colors'],
+        label: 'Cores',
+        type: 'json',
+        hint: 'Por segmento: clock, worldClock, temperature, range, status, battery.',
+      },
+      { path: ['fontSizes'], label: 'Tamanhos da fonte (px)', type: 'json' },
+      { path: ['textShadow'], label: 'Sombra do texto (CSS)', type: 'text', nullable: true },
+      {
+        path: ['background'],
+        label: 'Fundo',
+        type: 'json',
+        hint: '{ "color": "rgb(0 0 0 / 0.5)", "radius": 8, "paddingX": 8 } ou null.',
+      },
+      { path: ['opacity'], label: 'Opacidade', type: 'number', min: 0.1, max: 1, step: 0.05 },
+    ],
+  },
+  {
+    key: 'appearanceSchedule',
+    title: 'Aparência por horário',
+    fields: [
+      { path: ['enabled'], label: 'Ativar regras de horário', type: 'boolean' },
+      {
+        path: ['latitude'],
+        label: 'Latitude',
+        type: 'number',
+        min: -90,
+        max: 90,
+        step: 0.0001,
+      },
+      {
+        path: ['longitude'],
+        label: 'Longitude',
+        type: 'number',
+        min: -180,
+        max: 180,
+        step: 0.0001,
+        hint: 'Usadas para calcular o nascer e o pôr do sol.',
+      },
+      {
+        path: ['rules'],
+        label: 'Regras',
+        type: 'json',
+        hint: 'Vale a primeira regra ativa. from/to: { "kind": "clock", "time": "22:00" } ou { "kind": "sunset", "offsetMinutes": 30 }; theme: nome do tema ou null; opacity: 0.1–1 ou null.',
+      },
+    ],
+  },
+  {
+    key: 'alarms',
+    title: 'Alarmes',
+    fields: [
+      {
+        path: [],
+        label: 'Alarmes',
+        type: 'json',
+        hint: '{ "id": "acordar", "label": "Acordar", "time": "07:30", "weekdays": [1, 2, 3, 4, 5], "enabled": true, "sound": true, "snoozeMinutes": 10, "snoozedUntil": null }. weekdays vazio toca uma vez só.',
+      },
+    ],
+  },
+  {
+    key: 'timers',
+    title: 'Timer',
+    fields: [
+      {
+        path: ['countdownPresets'],
+        label: 'Contagens regressivas (min)',
+        type: 'json',
+        hint: 'Oferecidas na bandeja em "Timer", ex.: [5, 10, 25].',
+      },
+      {
+        path: ['pomodoro', 'workMinutes'],
+        label: 'Pomodoro: trabalho (min)',
+        type: 'number',
+        min: 1,
+        max: 240,
+      },
+      {
+        path: ['pomodoro', 'shortBreakMinutes'],
+        label: 'Pomodoro: pausa curta (min)',
+        type: 'number',
+        min: 1,
+        max: 120,
+      },
+      {
+        path: ['pomodoro', 'longBreakMinutes'],
+        label: 'Pomodoro: pausa longa (min)',
+        type: 'number',
+        min: 1,
+        max: 240,
+      },
+      {
+        path: ['pomodoro', 'cyclesBeforeLongBreak'],
+        label: 'Pomodoro: ciclos até a pausa longa',
+        type: 'number',
+        min: 1,
+        max: 12,
+      },
+    ],
+  },
+  {
+    key: 'customThemes',
+    title: 'Temas personalizados',
+    fields: [
+      {
+        path: [],
+        label: 'Temas',
+        type: 'json',
+        hint: 'Importados pela bandeja em "Tema"; aparecem junto dos temas embutidos.',
+      },
+    ],
+  },
+  {
+    key: 'temperatureDisplay',
+    title: 'Leitura exibida',
+    fields: [
+      {
+        path: [],
+        label: 'Valor',
+        type: 'select',
+        options: [
+          { value: 'temperatura', label: 'Temperatura' },
+          { value: 'sensTermica', label: 'Sensação térmica' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'temperatureFormat',
+    title: 'Formato da temperatura',
+    fields: [
+      {
+        path: ['unit'],
+        label: 'Unidade',
+        type: 'select',
+        options: [
+          { value: 'C', label: 'Celsius (°C)' },
+          { value: 'F', label: 'Fahrenheit (°F)' },
+          { value: 'K', label: 'Kelvin (K)' },
+        ],
+      },
+      { path: ['decimals'], label: 'Casas decimais', type: 'number', min: 0, max: 3 },
+      { path: ['locale'], label: 'Formato regional', type: 'select', options: LOCALE_OPTIONS },
+      { path: ['showUnit'], label: 'Exibir unidade', type: 'boolean' },
+    ],
+  },
+  {
+    key: 'temperatureSparkline',
+    title: 'Gráfico de temperatura',
+    fields: [
+      { path: ['enabled'], label: 'Exibir gráfico', type: 'boolean' },
+      { path: ['hours'], label: 'Período (horas)', type: 'number', min: 1, max: 72 },
+    ],
+  },
+  {
+    key: 'temperatureHistory',
+    title: 'Histórico de temperatura',
+    fields: [
+      { path: ['retentionDays'], label: 'Retenção (dias)', type: 'number', min: 1, max: 365 },
+      { path: ['maxSamples'], label: 'Máximo de amostras', type: 'number', min: 100, step: 100 },
+    ],
+  },
+  {
+    key: 'temperatureProvider',
+    title: 'Fonte de temperatura',
+    fields: [
+      {
+        path: [],
+        label: 'Provedor',
+        type: 'select',
+        options: [
+          { value: 'qualle', label: 'Qualle (Defesa Civil)' },
+          { value: 'http', label: 'HTTP/JSON (polling)' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'qualleProvider',
+    title: 'Provedor Qualle',
+    fields: [
+      { path: ['endpoint'], label: 'Endpoint (wss://)', type: 'text' },
+      { path: ['station'], label: 'Estação', type: 'text' },
+      { path: ['stations'], label: 'Estações no menu', type: 'list', hint: 'Uma por linha' },
+      { path: ['clients'], label: 'Clientes', type: 'list', hint: 'Um por linha' },
+    ],
+  },
+  {
+    key: 'httpProvider',
+    title: 'Provedor HTTP/JSON',
+    fields: [
+      { path: ['url'], label: 'URL', type: 'text' },
+      { path: ['intervalMs'], label: 'Intervalo (ms)', type: 'number', min: 5000, step: 1000 },
+      { path: ['headers'], label: 'Cabeçalhos', type: 'json' },
+      { path: ['temperatura', 'valuePath'], label: 'Temperatura: caminho do valor', type: 'text' },
+      {
+        path: ['temperatura', 'unitPath'],
+        label: 'Temperatura: caminho da unidade',
+        type: 'text',
+        nullable: true,
+      },
+      {
+        path: ['temperatura', 'unit'],
+        label: 'Temperatura: unidade fixa',
+        type: 'text',
+        nullable: true,
+      },
+      { path: ['sensTermica', 'valuePath'], label: 'Sensação: caminho do valor', type: 'text' },
+      {
+        path: ['sensTermica', 'unitPath'],
+        label: 'Sensação: caminho da unidade',
+        type: 'text',
+        nullable: true,
+      },
+      {
+        path: ['sensTermica', 'unit'],
+        label: 'Sensação: unidade fixa',
+        type: 'text',
+        nullable: true,
+      },
+      { path: ['timestampPath'], label: 'Caminho do timestamp', type: 'text', nullable: true },
+    ],
+  },
+  {
+    key: 'profiles',
+    title: 'Perfis',
+    fields: [
+      {
+        path: [],
+        label: 'Perfis salvos',
+        type: 'json',
+        hint: 'Criados pela bandeja em "Perfis"; aqui dá para renomear ou ajustar o conteúdo.',
+      },
+    ],
+  },
+  {
+    key: 'activeProfile',
+    title: 'Perfil ativo',
+    fields: [
+      {
+        path: [],
+        label: 'Nome',
+        type: 'text',
+        nullable: true,
+        hint: 'Só indica o último perfil aplicado; troque de perfil pela bandeja.',
+      },
+    ],
+  },
+  {
+    key: 'windowPosition',
+    title: 'Posição da janela',
+    fields: [
+      {
+        path: [],
+        label: 'Posição salva',
+        type: 'json',
+        hint: 'Cache da âncora; é recalculada automaticamente.',
+      },
+    ],
+  },
+]
+
+export function getAtPath(value: unknown, path: string[]): unknown {
+  let current = value
+  for (const segment of path) {
+    if (current === null || typeof current !== 'object') return undefined
+    current = (current as Record<string, unknown>)[segment]
+  }
+  return current
+}
+
+export function setAtPath(value: unknown, path: string[], next: unknown): unknown {
+  if (path.length === 0) return next
+  const [head, ...rest] = path
+  const base = (value ?? {}) as Record<string, unknown>
+  return { ...base, [head]: setAtPath(base[head], rest, next) }
+}
@@ -0,0 +1,174 @@
+import type { ClockFormatSettings } from './types'
+
+export type ClockSegment = {
+  text: string
+  /** `separator` são os `:` entre hora/minuto/segundo, que piscam no widget. */
+  kind: 'value' | 'separator' | 'literal'
+}
+
+/**
+ * Tokens suportados, do mais longo para o mais curto para o regex casar
+ * `dddd` antes de `dd`. Texto entre colchetes é literal: `[S]ww` -> `S42`.
+ */
+const TOKEN_REGEX = /\[([^\]]*)\]|yyyy|yy|MMMM|MMM|MM|M|dddd|ddd|dd|d|HH|H|hh|h|mm|m|ss|s|ww|w|A|a/g
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0')
+}
+
+/**
+ * Número da semana ISO 8601: semanas começam na segunda-feira e a semana 1 é a
+ * que contém a primeira quinta-feira do ano.
+ */
+export function getIsoWeek(date: Date): number {
+  const target = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  const dayOfWeek = (target.getDay() + 6) % 7
+  target.setDate(target.getDate() - dayOfWeek + 3)
+  const firstThursday = new Date(target.getFullYear(), 0, 4)
+  const firstDayOfWeek = (firstThursday.getDay() + 6) % 7
+  firstThursday.setDate(firstThursday.getDate() - firstDayOfWeek + 3)
+  return 1 + Math.round((target.getTime() - firstThursday.getTime()) / (7 * 24 * 60 * 60 * 1000))
+}
+
+function formatName(date: Date, locale: string, options: Intl.DateTimeFormatOptions): string {
+  try {
+    return new Intl.DateTimeFormat(locale, options).format(date).replace(/\.$/, '')
+  } catch {
+    return new Intl.DateTimeFormat(undefined, options).format(date).replace(/\.$/, '')
+  }
+}
+
+function formatToken(token: string, date: Date, locale: string): string {
+  const hours = date.getHours()
+  const hours12 = hours % 12 || 12
+
+  switch (token) {
+    case 'yyyy':
+      return date.getFullYear().toString()
+    case 'yy':
+      return pad(date.getFullYear() % 100)
+    case 'MMMM':
+      return formatName(date, locale, { month: 'long' })
+    case 'MMM':
+      return formatName(date, locale, { month: 'short' })
+    case 'MM':
+      return pad(date.getMonth() + 1)
+    case 'M':
+      return (date.getMonth() + 1).toString()
+    case 'dddd':
+      return formatName(date, locale, { weekday: 'long' })
+    case 'ddd':
+      return formatName(date, locale, { weekday: 'short' })
+    case 'dd':
+      return pad(date.getDate())
+    case 'd':
+      return date.getDate().toString()
+    case 'HH':
+      return pad(hours)
+    case 'H':
+      return hours.toString()
+    case 'hh':
+      return pad(hours12)
+    case 'h':
+      return hours12.toString()
+    case 'mm':
+      return pad(date.getMinutes())
+    case 'm':
+      return date.getMinutes().toString()
+    case 'ss':
+      return pad(date.getSeconds())
+    case 's':
+      return date.getSeconds().toString()
+    case 'ww':
+      return pad(getIsoWeek(date))
+    case 'w':
+      return getIsoWeek(date).toString()
+    case 'A':
+      return hours < 12 ? 'AM' : 'PM'
+    case 'a':
+      return hours < 12 ? 'am' : 'pm'
+    default:
+      return token
+  }
+}
+
+/**
+ * Se o relógio principal está em 12 horas. Com `pattern` customizado quem
+ * decide é o token de hora dele (`h`/`hh` ou `H`/`HH`), não `hour12`; assim
+ * os outros horários exibidos acompanham o relógio principal.
+ */
+export function isHour12(settings: ClockFormatSettings): boolean {
+  if (!settings.pattern) return settings.hour12
+
+  for (const match of settings.pattern.matchAll(TOKEN_REGEX)) {
+    if (match[0] === 'h' || match[0] === 'hh') return true
+    if (match[0] === 'H' || match[0] === 'HH') return false
+  }
+  return settings.hour12
+}
+
+/**
+ * Monta o padrão a partir das opções estruturadas. Um `pattern` customizado
+ * tem precedência sobre elas.
+ */
+export function buildClockPattern(settings: ClockFormatSettings): string {
+  if (settings.pattern) return settings.pattern
+
+  const prefix: string[] = []
+  if (settings.showWeekday) prefix.push('ddd')
+  if (settings.showDate) prefix.push('dd/MM')
+  if (settings.showWeekNumber) prefix.push('[S]ww')
+
+  const hour = settings.hour12 ? 'hh' : 'HH'
+  const seconds = settings.showSeconds ? ':ss' : ''
+  const suffix = settings.hour12 ? ' A' : ''
+
+  return [...prefix, `${hour}:mm${seconds}${suffix}`].join(' ')
+}
+
+export function formatClock(date: Date, settings: ClockFormatSettings): ClockSegment[] {
+  const pattern = buildClockPattern(settings)
+  const segments: ClockSegment[] = []
+
+  const pushLiteral = (text: string) => {
+    for (const part of text.split(/(:)/)) {
+      if (!part) continue
+      segments.push({ text: part, kind: part === ':' ? 'separator' : 'literal' })
+    }
+  }
+
+  let lastIndex = 0
+  for (const match of pattern.matchAll(TOKEN_REGEX)) {
+    pushLiteral(pattern.slice(lastIndex, match.index))
+    if (match[1] !== undefined) {
+      segments.push({ text: match[1], kind: 'literal' })
+    } else {
+      segments.push({ text: formatToken(match[0], date, settings.locale), kind: 'value' })
+    }
+    lastIndex = match.index + match[0].length
+  }
+  pushLiteral(pattern.slice(lastIndex))
+
+  return segments
+}
+
+/**
+ * Hora e minuto em outro fuso IANA. Retorna `null` para fusos inválidos, para
+ * que um valor digitado errado no config não derrube o widget.
+ */
+export function formatZoneTime(
+  date: Date,
+  timeZone: string,
+  settings: ClockFormatSettings,
+): string | null {
+  try {
+    return new Intl.DateTimeFormat(settings.locale, {
+      timeZone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: isHour12(settings),
+    }).format(date)
+  } catch {
+    return null
+  }
+}
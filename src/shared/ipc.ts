@@ -1,9 +1,86 @@
+import type {
+  BluetoothBatteryData,
+  DisplayInfo,
+  NextAlarm,
+  SettingUpdateResult,
+  StoreSchema,
+  TemperatureConnectionState,
+  TemperatureDailyStats,
+  TemperatureData,
+  TimerState,
+  WidgetTheme,
+  WindowSize,
+} from './types'
+
 export const IPC = {
-  PING: 'PING',
+  PING: 'ping',
   TEMPERATURE_UPDATE: 'temperature-update',
   GET_TEMPERATURE: 'get-temperature',
-  TEMPERATURE_DISPLAY_CHANGE: 'temperature-display-change',
-  GET_TEMPERATURE_DISPLAY: 'get-temperature-display',
+  TEMPERATURE_STATUS_CHANGE: 'temperature-status-change',
+  GET_TEMPERATURE_STATUS: 'get-temperature-status',
+  GET_TEMPERATURE_HISTORY: 'get-temperature-history',
+  GET_TEMPERATURE_DAILY_STATS: 'get-temperature-daily-stats',
+  SETTINGS_CHANGE: 'settings-change',
+  GET_SETTINGS: 'get-settings',
+  GET_SETTING: 'get-setting',
+  SET_SETTING: 'set-setting',
+  GET_DISPLAYS: 'get-displays',
+  THEME_CHANGE: 'theme-change',
+  GET_THEME: 'get-theme',
+  EDIT_LAYOUT_CHANGE: 'edit-layout-change',
+  CONTENT_SIZE_CHANGE: 'content-size-change',
+  GET_EDIT_LAYOUT: 'get-edit-layout',
+  NEXT_ALARM_CHANGE: 'next-alarm-change',
+  GET_NEXT_ALARM: 'get-next-alarm',
+  TIMER_CHANGE: 'timer-change',
+  GET_TIMER: 'get-timer',
   BLUETOOTH_BATTERY_UPDATE: 'bluetooth-battery-update',
   GET_BLUETOOTH_BATTERY: 'get-bluetooth-battery',
+} as const satisfies Record<string, IpcChannel>
+
+/**
+ * Canais `invoke` (renderer → main, com resposta): argumentos e retorno do
+ * handler registrado com `handle` no main.
+ */
+export type IpcInvokeChannels = {
+  'get-temperature': { args: []; result: TemperatureData | null }
+  'get-temperature-status': { args: []; result: TemperatureConnectionState }
+  'get-temperature-history': { args: [from: string, to?: string]; result: TemperatureData[] }
+  'get-temperature-daily-stats': { args: [date?: string]; result: TemperatureDailyStats }
+  'get-settings': { args: []; result: StoreSchema }
+  'get-setting': { args: [key: keyof StoreSchema]; result: StoreSchema[keyof StoreSchema] }
+  'set-setting': {
+    args: [key: keyof StoreSchema, value: StoreSchema[keyof StoreSchema]]
+    result: SettingUpdateResult
+  }
+  'get-displays': { args: []; result: DisplayInfo[] }
+  'get-theme': { args: []; result: WidgetTheme }
+  'get-edit-layout': { args: []; result: boolean }
+  'get-next-alarm': { args: []; result: NextAlarm | null }
+  'get-timer': { args: []; result: TimerState }
+  'get-bluetooth-battery': { args: []; result: BluetoothBatteryData | null }
 }
+
+/** Canais `send` do renderer para o main, sem resposta. */
+export type IpcSendChannels = {
+  ping: []
+  'content-size-change': [size: WindowSize]
+}
+
+/** Canais que o main empurra para as janelas. */
+export type IpcPushChannels = {
+  'temperature-update': [data: TemperatureData]
+  'temperature-status-change': [state: TemperatureConnectionState]
+  /** Qualquer chave do store que mudou, para todas as janelas. */
+  'settings-change': [key: keyof StoreSchema, value: StoreSchema[keyof StoreSchema]]
+  'theme-change': [theme: WidgetTheme]
+  'edit-layout-change': [enabled: boolean]
+  'next-alarm-change': [alarm: NextAlarm | null]
+  'timer-change': [state: TimerState]
+  'bluetooth-battery-update': [data: BluetoothBatteryData]
+}
+
+export type IpcInvokeChannel = keyof IpcInvokeChannels
+export type IpcSendChannel = keyof IpcSendChannels
+export type IpcPushChannel = keyof IpcPushChannels
+export type IpcChannel = IpcInvokeChannel | IpcSendChannel | IpcPushChannel
@@ -0,0 +1,398 @@
+import type { StoreSchema } from './types'
+
+type Validator = (value: unknown) => string | null
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+function isValidLocale(locale: unknown): boolean {
+  if (typeof locale !== 'string' || !locale) return false
+  try {
+    return Intl.getCanonicalLocales(locale).length > 0
+  } catch {
+    return false
+  }
+}
+
+function isValidTimeZone(timeZone: unknown): boolean {
+  if (typeof timeZone !== 'string' || !timeZone) return false
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+function isValidUrl(value: unknown, protocols: string[]): boolean {
+  if (typeof value !== 'string') return false
+  try {
+    return protocols.includes(new URL(value).protocol)
+  } catch {
+    return false
+  }
+}
+
+function integerInRange(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max
+}
+
+/**
+ * Valida os campos de um objeto aplicando uma regra por chave. Retorna a
+ * primeira mensagem de erro, prefixada com o nome do campo.
+ */
+function validateFields(value: unknown, rules: Record<string, Validator>): string | null {
+  if (!isObject(value)) return 'deve ser um objeto'
+  for (const [field, rule] of Object.entries(rules)) {
+    const error = rule(value[field])
+    if (error) return `${field}: ${error}`
+  }
+  return null
+}
+
+const boolean: Validator = (value) =>
+  typeof value === 'boolean' ? null : 'deve ser verdadeiro/falso'
+
+const oneOf =
+  (...options: string[]): Validator =>
+  (value) =>
+    typeof value === 'string' && options.includes(value) ? null : `deve ser ${options.join(' | ')}`
+
+const integer =
+  (min: number, max: number): Validator =>
+  (value) =>
+    integerInRange(value, min, max) ? null : `deve ser inteiro entre ${min} e ${max}`
+
+const nonEmptyString: Validator = (value) =>
+  typeof value === 'string' && value.trim() !== '' ? null : 'não pode ser vazio'
+
+const nullableString: Validator = (value) =>
+  value === null || typeof value === 'string' ? null : 'deve ser texto ou nulo'
+
+const locale: Validator = (value) => (isValidLocale(value) ? null : 'localidade inválida')
+
+const fieldMapping: Validator = (value) =>
+  validateFields(value, {
+    valuePath: nonEmptyString,
+    unitPath: nullableString,
+    unit: nullableString,
+  })
+
+const WINDOW_ANCHOR_RULES: Record<string, Validator> = {
+  corner: oneOf(
+    'top-left',
+    'top-center',
+    'top-right',
+    'bottom-left',
+    'bottom-center',
+    'bottom-right',
+  ),
+  display: (v) =>
+    v === 'primary' || v === 'cursor' || Number.isInteger(v)
+      ? null
+      : 'deve ser primary | cursor | id do monitor',
+  marginX: integer(0, 2000),
+  marginY: integer(0, 2000),
+  useWorkArea: boolean,
+  freePosition: (v) =>
+    v === null ||
+    (isObject(v) && Number.isInteger(v.displayId) && Number.isFinite(v.x) && Number.isFinite(v.y))
+      ? null
+      : 'deve ser nulo ou { displayId, x, y } numéricos',
+}
+
+const windowAnchor: Validator = (value) => validateFields(value, WINDOW_ANCHOR_RULES)
+
+/** Só os campos presentes, como nas âncoras por monitor. */
+const partialWindowAnchor: Validator = (value) => {
+  if (!isObject(value)) return 'deve ser um objeto'
+  for (const [field, fieldValue] of Object.entries(value)) {
+    const rule = WINDOW_ANCHOR_RULES[field]
+    const error = rule ? rule(fieldValue) : 'campo desconhecido'
+    if (error) return `${field}: ${error}`
+  }
+  return null
+}
+
+const THEME_SEGMENTS = ['clock', 'worldClock', 'temperature', 'range', 'status', 'battery']
+
+const theme: Validator = (value) =>
+  validateFields(value, {
+    name: nonEmptyString,
+    fontFamily: nonEmptyString,
+    colors: (v) =>
+      validateFields(v, Object.fromEntries(THEME_SEGMENTS.map((s) => [s, nonEmptyString]))),
+    fontSizes: (v) =>
+      validateFields(v, Object.fromEntries(THEME_SEGMENTS.map((s) => [s, integer(6, 200)]))),
+    textShadow: nullableString,
+    background: (v) =>
+      v === null
+        ? null
+        : validateFields(v, {
+            color: nonEmptyString,
+            radius: integer(0, 100),
+            paddingX: integer(0, 100),
+          }),
+    opacity: (v) =>
+      typeof v === 'number' && v >= 0.1 && v <= 1 ? null : 'deve ser um número entre 0.1 e 1',
+  })
+
+const clockTime: Validator = (value) =>
+  typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value)
+    ? null
+    : 'deve estar no formato HH:mm'
+
+const appearanceTime: Validator = (value) => {
+  if (!isObject(value)) return 'deve ser um objeto'
+  if (value.kind === 'clock') {
+    const error = clockTime(value.time)
+    return error && `time ${error}`
+  }
+  if (value.kind === 'sunrise' || value.kind === 'sunset') {
+    return integerInRange(value.offsetMinutes, -720, 720)
+      ? null
+      : 'offsetMinutes deve ser inteiro entre -720 e 720'
+  }
+  return 'kind deve ser clock | sunrise | sunset'
+}
+
+const appearanceRule: Validator = (value) =>
+  validateFields(value, {
+    name: nonEmptyString,
+    from: appearanceTime,
+    to: appearanceTime,
+    theme: nullableString,
+    opacity: (v) =>
+      v === null || (typeof v === 'number' && v >= 0.1 && v <= 1)
+        ? null
+        : 'deve ser nulo ou um número entre 0.1 e 1',
+  })
+
+const alarm: Validator = (value) =>
+  validateFields(value, {
+    id: nonEmptyString,
+    label: (v) => (typeof v === 'string' ? null : 'deve ser texto'),
+    time: clockTime,
+    weekdays: (v) =>
+      Array.isArray(v) &&
+      v.every((day) => integerInRange(day, 0, 6)) &&
+      new Set(v).size === v.length
+        ? null
+        : 'deve ser uma lista sem repetição de dias de 0 (domingo) a 6',
+    enabled: boolean,
+    sound: boolean,
+    snoozeMinutes: integer(1, 120),
+    snoozedUntil: (v) =>
+      v === null || (typeof v === 'string' && !Number.isNaN(Date.parse(v)))
+        ? null
+        : 'deve ser nulo ou uma data ISO',
+  })
+
+const numberInRange =
+  (min: number, max: number): Validator =>
+  (value) =>
+    typeof value === 'number' && value >= min && value <= max
+      ? null
+      : `deve ser um número entre ${min} e ${max}`
+
+export const SETTING_VALIDATORS: { [K in keyof StoreSchema]: Validator } = {
+  windowPosition: (value) =>
+    value === null || (isObject(value) && Number.isFinite(value.x) && Number.isFinite(value.y))
+      ? null
+      : 'deve ser nulo ou { x, y } numéricos',
+  windowAnchor,
+  overlayInstances: (value) =>
+    validateFields(value, {
+      mode: oneOf('single', 'all', 'selected'),
+      displayIds: (v) =>
+        Array.isArray(v) && v.every((id) => Number.isInteger(id))
+          ? null
+          : 'deve ser uma lista de ids de monitor',
+      anchors: (v) => {
+        if (!isObject(v)) return 'deve ser um objeto'
+        for (const [displayId, anchor] of Object.entries(v)) {
+          const error = partialWindowAnchor(anchor)
+          if (error) return `${displayId}.${error}`
+        }
+        return null
+      },
+    }),
+  windowSize: (value) => {
+    const error = validateFields(value, {
+      minWidth: integer(16, 4000),
+      maxWidth: integer(16, 4000),
+      minHeight: integer(16, 1000),
+      maxHeight: integer(16, 1000),
+    })
+    if (error || !isObject(value)) return error
+    if (Number(value.minWidth) > Number(value.maxWidth)) return 'minWidth maior que maxWidth'
+    if (Number(value.minHeight) > Number(value.maxHeight)) return 'minHeight maior que maxHeight'
+    return null
+  },
+  theme,
+  customThemes: (value) => {
+    if (!Array.isArray(value)) return 'deve ser uma lista de temas'
+    for (const item of value) {
+      const error = theme(item)
+      if (error) return `${isObject(item) ? String(item.name) : '?'}: ${error}`
+    }
+    return null
+  },
+  appearanceSchedule: (value) =>
+    validateFields(value, {
+      enabled: boolean,
+      latitude: numberInRange(-90, 90),
+      longitude: numberInRange(-180, 180),
+      rules: (v) => {
+        if (!Array.isArray(v)) return 'deve ser uma lista de regras'
+        for (const [index, rule] of v.entries()) {
+          const error = appearanceRule(rule)
+          if (error) return `regra ${index + 1}: ${error}`
+        }
+        return null
+      },
+    }),
+  alarms: (value) => {
+    if (!Array.isArray(value)) return 'deve ser uma lista de alarmes'
+    const ids = new Set<unknown>()
+    for (const [index, item] of value.entries()) {
+      const error = alarm(item)
+      if (error) return `alarme ${index + 1}: ${error}`
+      if (ids.has(item.id)) return `alarme ${index + 1}: id repetido`
+      ids.add(item.id)
+    }
+    return null
+  },
+  timers: (value) =>
+    validateFields(value, {
+      countdownPresets: (v) =>
+        Array.isArray(v) && v.length > 0 && v.every((minutes) => integerInRange(minutes, 1, 1440))
+          ? null
+          : 'deve ser uma lista não vazia de minutos entre 1 e 1440',
+      pomodoro: (v) =>
+        validateFields(v, {
+          workMinutes: integer(1, 240),
+          shortBreakMinutes: integer(1, 120),
+          longBreakMinutes: integer(1, 240),
+          cyclesBeforeLongBreak: integer(1, 12),
+        }),
+    }),
+  profiles: (value) => {
+    if (!Array.isArray(value)) return 'deve ser uma lista de perfis'
+    const names = new Set<unknown>()
+    for (const [index, profile] of value.entries()) {
+      const error = validateFields(profile, {
+        name: nonEmptyString,
+        settings: validateProfileSettings,
+      })
+      if (error) return `perfil ${index + 1}: ${error}`
+      if (names.has(profile.name)) return `perfil ${index + 1}: nome repetido`
+      names.add(profile.name)
+    }
+    return null
+  },
+  activeProfile: nullableString,
+  openAtLogin: boolean,
+  temperatureDisplay: oneOf('temperatura', 'sensTermica'),
+  temperatureProvider: oneOf('qualle', 'http'),
+  qualleProvider: (value) =>
+    validateFields(value, {
+      endpoint: (v) => (isValidUrl(v, ['ws:', 'wss:']) ? null : 'URL ws:// ou wss:// inválida'),
+      station: nonEmptyString,
+      stations: (v) => (isStringArray(v) ? null : 'deve ser uma lista de textos'),
+      clients: (v) =>
+        isStringArray(v) && v.length > 0 ? null : 'deve ser uma lista de textos não vazia',
+    }),
+  httpProvider: (value) =>
+    validateFields(value, {
+      url: (v) => (isValidUrl(v, ['http:', 'https:']) ? null : 'URL http:// ou https:// inválida'),
+      intervalMs: integer(5_000, 24 * 60 * 60 * 1000),
+      headers: (v) =>
+        isObject(v) && Object.values(v).every((h) => typeof h === 'string')
+          ? null
+          : 'deve ser um objeto de textos',
+      temperatura: fieldMapping,
+      sensTermica: fieldMapping,
+      timestampPath: nullableString,
+    }),
+  temperatureHistory: (value) =>
+    validateFields(value, { retentionDays: integer(1, 365), maxSamples: integer(100, 500_000) }),
+  temperatureSparkline: (value) =>
+    validateFields(value, { enabled: boolean, hours: integer(1, 72) }),
+  temperatureFormat: (value) =>
+    validateFields(value, {
+      unit: oneOf('C', 'F', 'K'),
+      decimals: integer(0, 3),
+      locale,
+      showUnit: boolean,
+    }),
+  clockFormat: (value) =>
+    validateFields(value, {
+      hour12: boolean,
+      showSeconds: boolean,
+      showWeekday: boolean,
+      showDate: boolean,
+      showWeekNumber: boolean,
+      pattern: (v) =>
+        v === null || (typeof v === 'string' && v.trim() !== '')
+          ? null
+          : 'deve ser nulo ou um padrão',
+      locale,
+    }),
+  clockFace: oneOf('digital', 'analog', 'binary'),
+  worldClocks: (value) =>
+    validateFields(value, {
+      zones: (v) => {
+        if (!Array.isArray(v)) return 'deve ser uma lista'
+        for (const zone of v) {
+          if (!isObject(zone) || typeof zone.label !== 'string' || !zone.label.trim()) {
+            return 'cada fuso precisa de um rótulo'
+          }
+          if (!isValidTimeZone(zone.timeZone)) return `fuso inválido: ${String(zone.timeZone)}`
+        }
+        return null
+      },
+      mode: oneOf('inline', 'cycle'),
+      cycleSeconds: integer(1, 3600),
+    }),
+}
+
+export function isSettingKey(key: unknown): key is keyof StoreSchema {
+  return typeof key === 'string' && Object.hasOwn(SETTING_VALIDATORS, key)
+}
+
+/**
+ * Retorna a mensagem de erro, ou `null` quando o valor é válido para a chave.
+ */
+export function validateSetting(key: string, value: unknown): string | null {
+  if (!isSettingKey(key)) return `configuração desconhecida: ${key}`
+  return SETTING_VALIDATORS[key](value)
+}
+
+/** Chaves que não entram em perfis nem em arquivos exportados. */
+export const NON_PROFILE_KEYS: (keyof StoreSchema)[] = [
+  'windowPosition',
+  'profiles',
+  'activeProfile',
+]
+
+/**
+ * Valida o conteúdo de um perfil/arquivo exportado: só chaves conhecidas de
+ * configuração, cada uma com valor válido.
+ */
+export function validateProfileSettings(settings: unknown): string | null {
+  if (!isObject(settings)) return 'deve ser um objeto'
+  for (const [key, value] of Object.entries(settings)) {
+    if (!isSettingKey(key) || NON_PROFILE_KEYS.includes(key)) {
+      return `configuração não permitida em perfil: ${key}`
+    }
+    const error = SETTING_VALIDATORS[key](value)
+    if (error) return `${key}: ${error}`
+  }
+  return null
+}
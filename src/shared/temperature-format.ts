@@ -0,0 +1,75 @@
+import type { TemperatureFormatSettings, TemperatureUnit } from './types'
+
+const INTL_UNITS: Partial<Record<TemperatureUnit, string>> = {
+  C: 'celsius',
+  F: 'fahrenheit',
+}
+
+/**
+ * Interpreta a unidade informada pelo provedor (`°C`, `ºC`, `C`, `celsius`,
+ * `°F`, `K`...). Sem unidade ou com valor desconhecido, assume Celsius, que é o
+ * que as estações da Defesa Civil reportam.
+ */
+export function parseTemperatureUnit(unit: string | null): TemperatureUnit {
+  const normalized = (unit ?? '').replace(/[°º\s]/g, '').toUpperCase()
+  if (normalized === 'F' || normalized === 'FAHRENHEIT') return 'F'
+  if (normalized === 'K' || normalized === 'KELVIN') return 'K'
+  return 'C'
+}
+
+export function convertTemperature(
+  value: number,
+  from: TemperatureUnit,
+  to: TemperatureUnit,
+): number {
+  if (from === to) return value
+
+  const celsius = from === 'F' ? ((value - 32) * 5) / 9 : from === 'K' ? value - 273.15 : value
+
+  if (to === 'F') return (celsius * 9) / 5 + 32
+  if (to === 'K') return celsius + 273.15
+  return celsius
+}
+
+function createNumberFormat(locale: string, options: Intl.NumberFormatOptions): Intl.NumberFormat {
+  try {
+    return new Intl.NumberFormat(locale, options)
+  } catch {
+    // Localidade inválida vinda do config: cai para a do sistema.
+    return new Intl.NumberFormat(undefined, options)
+  }
+}
+
+/**
+ * Converte da unidade reportada para a unidade de exibição e formata conforme
+ * a localidade escolhida. Kelvin não usa símbolo de grau (SI).
+ */
+export function formatTemperature(
+  value: number | string,
+  sourceUnit: string | null,
+  settings: TemperatureFormatSettings,
+): string {
+  const converted = convertTemperature(
+    Number(value),
+    parseTemperatureUnit(sourceUnit),
+    settings.unit,
+  )
+  const digits = {
+    minimumFractionDigits: settings.decimals,
+    maximumFractionDigits: settings.decimals,
+  }
+  const intlUnit = INTL_UNITS[settings.unit]
+
+  if (settings.showUnit && intlUnit) {
+    return createNumberFormat(settings.locale, {
+      ...digits,
+      style: 'unit',
+      unit: intlUnit,
+      unitDisplay: 'short',
+    }).format(converted)
+  }
+
+  const number = createNumberFormat(settings.locale, digits).format(converted)
+  if (settings.unit === 'K') return `${number} K`
+  return `${number}°`
+}
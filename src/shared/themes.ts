@@ -0,0 +1,85 @@
+import type { WidgetTheme } from './types'
+
+const SHADOW_LG =
+  '0px 1px 2px rgb(0 0 0 / 0.1), 0px 3px 2px rgb(0 0 0 / 0.1), 0px 4px 8px rgb(0 0 0 / 0.1)'
+
+const SECONDARY_SIZES = {
+  worldClock: 18,
+  temperature: 18,
+  range: 14,
+  status: 14,
+  battery: 18,
+}
+
+/**
+ * Temas que acompanham o app. O primeiro reproduz o visual original e é o
+ * padrão do store.
+ */
+export const BUILT_IN_THEMES: WidgetTheme[] = [
+  {
+    name: 'Clássico',
+    fontFamily: 'Cascadia Code',
+    colors: {
+      clock: '#ea580c',
+      worldClock: 'rgb(255 255 255 / 0.7)',
+      temperature: 'rgb(255 255 255 / 0.7)',
+      range: 'rgb(255 255 255 / 0.5)',
+      status: 'rgb(255 255 255 / 0.5)',
+      battery: 'rgb(255 255 255 / 0.5)',
+    },
+    fontSizes: { clock: 24, ...SECONDARY_SIZES },
+    textShadow: SHADOW_LG,
+    background: null,
+    opacity: 1,
+  },
+  {
+    name: 'Terminal',
+    fontFamily: 'Cascadia Code',
+    colors: {
+      clock: '#22c55e',
+      worldClock: 'rgb(134 239 172 / 0.8)',
+      temperature: 'rgb(134 239 172 / 0.8)',
+      range: 'rgb(134 239 172 / 0.6)',
+      status: 'rgb(134 239 172 / 0.6)',
+      battery: 'rgb(134 239 172 / 0.6)',
+    },
+    fontSizes: { clock: 24, ...SECONDARY_SIZES },
+    textShadow: '0 0 6px rgb(34 197 94 / 0.6)',
+    background: { color: 'rgb(0 0 0 / 0.6)', radius: 6, paddingX: 8 },
+    opacity: 1,
+  },
+  {
+    name: 'Pílula clara',
+    fontFamily: 'Segoe UI, system-ui, sans-serif',
+    colors: {
+      clock: '#171717',
+      worldClock: '#404040',
+      temperature: '#404040',
+      range: '#737373',
+      status: '#737373',
+      battery: '#737373',
+    },
+    fontSizes: { clock: 22, ...SECONDARY_SIZES },
+    textShadow: null,
+    background: { color: 'rgb(255 255 255 / 0.85)', radius: 16, paddingX: 12 },
+    opacity: 1,
+  },
+  {
+    name: 'Discreto',
+    fontFamily: 'Cascadia Code',
+    colors: {
+      clock: 'rgb(255 255 255 / 0.8)',
+      worldClock: 'rgb(255 255 255 / 0.5)',
+      temperature: 'rgb(255 255 255 / 0.5)',
+      range: 'rgb(255 255 255 / 0.4)',
+      status: 'rgb(255 255 255 / 0.4)',
+      battery: 'rgb(255 255 255 / 0.4)',
+    },
+    fontSizes: { clock: 20, worldClock: 16, temperature: 16, range: 12, status: 12, battery: 16 },
+    textShadow: SHADOW_LG,
+    background: null,
+    opacity: 0.6,
+  },
+]
+
+export const DEFAULT_THEME = BUILT_IN_THEMES[0]
@@ -0,0 +1,30 @@
+import type { TimerState } from './types'
+
+/**
+ * Tempo decorrido do timer em `now`, somando o trecho em andamento.
+ */
+export function getTimerElapsedMs(state: TimerState, now: number): number {
+  if (state.status !== 'running' || !state.startedAt) return state.elapsedMs
+  return state.elapsedMs + Math.max(0, now - Date.parse(state.startedAt))
+}
+
+/**
+ * Tempo restante na contagem/fase atual; `null` no cronômetro.
+ */
+export function getTimerRemainingMs(state: TimerState, now: number): number | null {
+  if (state.durationMs === null) return null
+  return Math.max(0, state.durationMs - getTimerElapsedMs(state, now))
+}
+
+/**
+ * `mm:ss`, ou `h:mm:ss` a partir de uma hora. Arredonda para cima para a
+ * contagem regressiva só mostrar 00:00 quando realmente terminar.
+ */
+export function formatDuration(ms: number, roundUp = false): string {
+  const totalSeconds = roundUp ? Math.ceil(ms / 1000) : Math.floor(ms / 1000)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`
+  return hours > 0 ? `${hours}:${mmss}` : mmss
+}
@@ -1,5 +1,35 @@
 export type TemperatureDisplayType = 'temperatura' | 'sensTermica'
 
+export type TemperatureProviderType = 'qualle' | 'http'
+
+export type QualleProviderSettings = {
+  endpoint: string
+  station: string
+  stations: string[]
+  clients: string[]
+}
+
+/**
+ * Caminhos no JSON de resposta, no formato `data.current.temp` ou
+ * `$.items[0].value`. `unit` é usado quando `unitPath` é nulo ou não resolve.
+ */
+export type TemperatureFieldMapping = {
+  valuePath: string
+  unitPath: string | null
+  unit: string | null
+}
+
+export type HttpProviderSettings = {
+  url: string
+  intervalMs: number
+  headers: Record<string, string>
+  temperatura: TemperatureFieldMapping
+  sensTermica: TemperatureFieldMapping
+  timestampPath: string | null
+}
+
+export type TemperatureConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'offline'
+
 export type TemperatureReading = {
   value: string | null
   unit: string | null
@@ -12,6 +42,179 @@ export type TemperatureData = {
   timestamp: string
 }
 
+/** Valores em Celsius, convertidos a partir da unidade de cada amostra. */
+export type TemperatureStats = {
+  min: number
+  max: number
+  avg: number
+  count: number
+}
+
+export type TemperatureDailyStats = {
+  /** Dia local no formato `YYYY-MM-DD`. */
+  date: string
+  temperatura: TemperatureStats | null
+  sensTermica: TemperatureStats | null
+}
+
+export type TemperatureHistorySettings = {
+  retentionDays: number
+  maxSamples: number
+}
+
+export type TemperatureSparklineSettings = {
+  enabled: boolean
+  hours: number
+}
+
+export type TemperatureUnit = 'C' | 'F' | 'K'
+
+export type TemperatureFormatSettings = {
+  unit: TemperatureUnit
+  decimals: number
+  /** Tag BCP 47 usada no separador decimal e no símbolo de grau. */
+  locale: string
+  showUnit: boolean
+}
+
+export type ClockFormatSettings = {
+  hour12: boolean
+  showSeconds: boolean
+  showWeekday: boolean
+  showDate: boolean
+  showWeekNumber: boolean
+  /** Padrão de tokens (ex.: `ddd dd/MM HH:mm`); substitui as opções acima. */
+  pattern: string | null
+  /** Tag BCP 47 usada nos nomes de dia da semana e mês. */
+  locale: string
+}
+
+/** Mostrador do relógio; os demais segmentos do widget valem para todos. */
+export type ClockFaceType = 'digital' | 'analog' | 'binary'
+
+export type WorldClockZone = {
+  /** Identificador IANA, ex.: `America/Sao_Paulo`. */
+  timeZone: string
+  label: string
+}
+
+export type WorldClockSettings = {
+  zones: WorldClockZone[]
+  /** `inline` mostra todos lado a lado; `cycle` alterna um por vez. */
+  mode: 'inline' | 'cycle'
+  cycleSeconds: number
+}
+
+/** Partes do widget que o tema estiliza separadamente. */
+export type ThemeSegment = 'clock' | 'worldClock' | 'temperature' | 'range' | 'status' | 'battery'
+
+export type ThemeBackground = {
+  color: string
+  radius: number
+  paddingX: number
+}
+
+export type WidgetTheme = {
+  name: string
+  fontFamily: string
+  /** Cor CSS por segmento. */
+  colors: Record<ThemeSegment, string>
+  /** Tamanho da fonte em px por segmento. */
+  fontSizes: Record<ThemeSegment, number>
+  /** Valor CSS de `text-shadow`; `null` desliga. */
+  textShadow: string | null
+  /** "Pílula" atrás do conteúdo; `null` deixa o fundo transparente. */
+  background: ThemeBackground | null
+  /** Opacidade geral do widget, de 0.1 a 1. */
+  opacity: number
+}
+
+/**
+ * Momento do dia de uma regra de aparência: um horário fixo ("22:00") ou o
+ * nascer/pôr do sol calculado para a latitude/longitude, com deslocamento.
+ */
+export type AppearanceTime =
+  | { kind: 'clock'; time: string }
+  | { kind: 'sunrise' | 'sunset'; offsetMinutes: number }
+
+export type AppearanceRule = {
+  name: string
+  from: AppearanceTime
+  to: AppearanceTime
+  /** Nome de um tema embutido/personalizado; `null` mantém o tema ativo. */
+  theme: string | null
+  /** Substitui a opacidade do tema; `null` mantém a do tema. */
+  opacity: number | null
+}
+
+export type AppearanceScheduleSettings = {
+  enabled: boolean
+  latitude: number
+  longitude: number
+  /** Avaliadas em ordem; vale a primeira cujo intervalo contém o horário atual. */
+  rules: AppearanceRule[]
+}
+
+export type Alarm = {
+  /** Identificador estável; qualquer texto único. */
+  id: string
+  label: string
+  /** Horário local no formato `HH:mm`. */
+  time: string
+  /** Dias da semana em que repete (0 = domingo); vazio toca uma vez e se desativa. */
+  weekdays: number[]
+  enabled: boolean
+  /** Toca o som padrão de notificação do sistema. */
+  sound: boolean
+  snoozeMinutes: number
+  /** Próximo toque adiado (ISO); `null` sem soneca pendente. */
+  snoozedUntil: string | null
+}
+
+/** Próximo toque de alarme, exibido no widget. */
+export type NextAlarm = {
+  id: string
+  label: string
+  /** ISO do momento do toque. */
+  at: string
+}
+
+export type TimerMode = 'countdown' | 'pomodoro' | 'stopwatch'
+
+export type PomodoroPhase = 'work' | 'shortBreak' | 'longBreak'
+
+export type PomodoroSettings = {
+  workMinutes: number
+  shortBreakMinutes: number
+  longBreakMinutes: number
+  /** Fases de trabalho antes de uma pausa longa. */
+  cyclesBeforeLongBreak: number
+}
+
+export type TimerSettings = {
+  /** Durações em minutos oferecidas na bandeja para a contagem regressiva. */
+  countdownPresets: number[]
+  pomodoro: PomodoroSettings
+}
+
+/**
+ * Estado do timer, mantido no main. O tempo decorrido é `elapsedMs` mais o que
+ * passou desde `startedAt` enquanto estiver rodando.
+ */
+export type TimerState = {
+  mode: TimerMode
+  status: 'idle' | 'running' | 'paused'
+  /** Duração da contagem ou da fase atual; `null` no cronômetro. */
+  durationMs: number | null
+  elapsedMs: number
+  /** ISO do início do trecho em andamento; `null` quando parado. */
+  startedAt: string | null
+  /** Fase do Pomodoro; `null` nos outros modos. */
+  phase: PomodoroPhase | null
+  /** Fases de trabalho concluídas no Pomodoro. */
+  completedCycles: number
+}
+
 export type BluetoothDevice = {
   name: string
   batteryLevel: number | null
@@ -29,6 +232,79 @@ export type WindowPosition = {
   y: number
 }
 
+export type WindowAnchorCorner =
+  | 'top-left'
+  | 'top-center'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-center'
+  | 'bottom-right'
+
+/**
+ * Monitor de destino: o principal, o que está sob o cursor no momento em que a
+ * âncora é recalculada, ou o `id` de um display específico.
+ */
+export type WindowAnchorDisplay = 'primary' | 'cursor' | number
+
+/**
+ * Posição escolhida no modo de edição, relativa à área (`bounds`/`workArea`) do
+ * monitor em que foi salva.
+ */
+export type WindowFreePosition = {
+  displayId: number
+  x: number
+  y: number
+}
+
+export type WindowAnchorSettings = {
+  corner: WindowAnchorCorner
+  display: WindowAnchorDisplay
+  marginX: number
+  marginY: number
+  /** Ancora na área útil (sem barra de tarefas/painel) em vez da tela inteira. */
+  useWorkArea: boolean
+  /** Quando definida, substitui o canto/margens. */
+  freePosition: WindowFreePosition | null
+}
+
+/**
+ * Quantos relógios abrir: 'single' mantém uma só janela (seguindo
+ * `windowAnchor`), 'all' abre uma por monitor e 'selected' só nos `displayIds`.
+ */
+export type OverlayInstanceMode = 'single' | 'all' | 'selected'
+
+export type OverlayInstancesSettings = {
+  mode: OverlayInstanceMode
+  displayIds: number[]
+  /**
+   * Campos próprios de cada monitor (chave = id do display), aplicados sobre
+   * `windowAnchor`; o que faltar é herdado dela. O campo `display` é ignorado.
+   */
+  anchors: Record<string, Partial<WindowAnchorSettings>>
+}
+
+export type DisplayInfo = {
+  id: number
+  label: string
+  primary: boolean
+}
+
+export type WindowSize = {
+  width: number
+  height: number
+}
+
+/**
+ * Limites para o tamanho da janela, que acompanha o conteúdo medido pelo
+ * renderer. Mínimo igual ao máximo fixa o tamanho.
+ */
+export type WindowSizeSettings = {
+  minWidth: number
+  maxWidth: number
+  minHeight: number
+  maxHeight: number
+}
+
 export type WindowState = {
   x: number
   y: number
@@ -37,8 +313,52 @@ export type WindowState = {
   isOnTop: boolean
 }
 
+export type SettingUpdateResult = { ok: true } | { ok: false; error: string }
+
+/**
+ * Configurações levadas por um perfil ou arquivo exportado. Ficam de fora o
+ * cache de posição da janela e os próprios perfis.
+ */
+export type ProfileSettings = Omit<StoreSchema, 'windowPosition' | 'profiles' | 'activeProfile'>
+
+export type SettingsProfile = {
+  name: string
+  /** Só as chaves salvas; as ausentes ficam como estão ao trocar de perfil. */
+  settings: Partial<ProfileSettings>
+}
+
+/** Formato do arquivo de exportação de configurações. */
+export type SettingsExportFile = {
+  app: 'desktop-widget-clock'
+  /** Versão do app que exportou. */
+  version: string
+  exportedAt: string
+  profileName: string | null
+  settings: Partial<ProfileSettings>
+}
+
 export type StoreSchema = {
   windowPosition: WindowPosition | null
+  windowAnchor: WindowAnchorSettings
+  overlayInstances: OverlayInstancesSettings
+  windowSize: WindowSizeSettings
+  theme: WidgetTheme
+  customThemes: WidgetTheme[]
+  appearanceSchedule: AppearanceScheduleSettings
+  alarms: Alarm[]
+  timers: TimerSettings
+  profiles: SettingsProfile[]
+  /** Nome do último perfil aplicado; `null` quando nenhum. */
+  activeProfile: string | null
   openAtLogin: boolean
   temperatureDisplay: TemperatureDisplayType
+  temperatureProvider: TemperatureProviderType
+  qualleProvider: QualleProviderSettings
+  httpProvider: HttpProviderSettings
+  temperatureHistory: TemperatureHistorySettings
+  temperatureSparkline: TemperatureSparklineSettings
+  temperatureFormat: TemperatureFormatSettings
+  clockFormat: ClockFormatSettings
+  clockFace: ClockFaceType
+  worldClocks: WorldClockSettings
 }